@@ -0,0 +1,184 @@
+import { CalendarDate, D } from "./CalendarDate.ts";
+import { BusinessCalendar } from "./BusinessCalendar.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+// August 2023: Mon. Aug 7 was Civic Holiday in much of Canada. Aug 5-6, 12-13 are weekends.
+const calendar = new BusinessCalendar({
+  holidays: [D`2023-08-07`, D`2023-09-04`, D`2023-12-25`, D`2023-12-26`],
+});
+
+Deno.test("BusinessCalendar.isBusinessDay()", () => {
+  assertEquals(calendar.isBusinessDay(D`2023-08-04`), true); // Friday
+  assertEquals(calendar.isBusinessDay(D`2023-08-05`), false); // Saturday
+  assertEquals(calendar.isBusinessDay(D`2023-08-06`), false); // Sunday
+  assertEquals(calendar.isBusinessDay(D`2023-08-07`), false); // Holiday
+  assertEquals(calendar.isBusinessDay(D`2023-08-08`), true); // Tuesday
+  assertEquals(calendar.isHoliday(D`2023-08-07`), true);
+  assertEquals(calendar.isHoliday(D`2023-08-08`), false);
+});
+
+Deno.test("BusinessCalendar.addBusinessDays()", async (t) => {
+  await t.step("skips weekends and holidays", () => {
+    assertEquals(
+      calendar.addBusinessDays(D`2023-08-03`, 1).toString(),
+      "2023-08-04",
+    );
+    assertEquals(
+      calendar.addBusinessDays(D`2023-08-04`, 1).toString(),
+      "2023-08-08",
+    );
+    assertEquals(
+      calendar.addBusinessDays(D`2023-08-01`, 10).toString(),
+      "2023-08-16",
+    );
+    assertEquals(
+      calendar.addBusinessDays(D`2023-08-05`, 1).toString(),
+      "2023-08-08",
+    );
+  });
+
+  await t.step("can go backwards", () => {
+    assertEquals(
+      calendar.addBusinessDays(D`2023-08-08`, -1).toString(),
+      "2023-08-04",
+    );
+    assertEquals(
+      calendar.addBusinessDays(D`2023-08-16`, -10).toString(),
+      "2023-08-01",
+    );
+  });
+
+  await t.step("adding zero returns the same date", () => {
+    assertEquals(
+      calendar.addBusinessDays(D`2023-08-05`, 0).toString(),
+      "2023-08-05",
+    );
+  });
+
+  await t.step("next and previous business day", () => {
+    assertEquals(
+      calendar.nextBusinessDay(D`2023-12-22`).toString(),
+      "2023-12-27",
+    );
+    assertEquals(
+      calendar.previousBusinessDay(D`2023-12-27`).toString(),
+      "2023-12-22",
+    );
+  });
+
+  await t.step("across many years", () => {
+    const noHolidays = new BusinessCalendar();
+    // 5 business days per week, so 260,000 business days is exactly 52,000 weeks:
+    assertEquals(
+      noHolidays.addBusinessDays(D`2023-08-01`, 260_000).toString(),
+      D`2023-08-01`.addDays(52_000 * 7).toString(),
+    );
+  });
+
+  await t.step("rejects non-integers", () => {
+    assertThrows(
+      () => calendar.addBusinessDays(D`2023-08-01`, 1.5),
+      Error,
+      "Non-integer number of business days.",
+    );
+  });
+});
+
+Deno.test("BusinessCalendar.businessDaysBetween()", () => {
+  assertEquals(calendar.businessDaysBetween(D`2023-08-01`, D`2023-08-01`), 0);
+  assertEquals(calendar.businessDaysBetween(D`2023-08-04`, D`2023-08-08`), 1);
+  assertEquals(calendar.businessDaysBetween(D`2023-08-01`, D`2023-08-16`), 10);
+  assertEquals(calendar.businessDaysBetween(D`2023-08-16`, D`2023-08-01`), -10);
+  // All of 2023: 260 weekdays, minus 4 holidays
+  assertEquals(calendar.businessDaysBetween(D`2022-12-31`, D`2023-12-31`), 256);
+});
+
+Deno.test("BusinessCalendar with other weekends", () => {
+  // Friday/Saturday weekend:
+  const fridaySaturday = new BusinessCalendar({ weekendDays: [4, 5] });
+  assertEquals(fridaySaturday.isBusinessDay(D`2023-08-06`), true); // Sunday
+  assertEquals(
+    fridaySaturday.nextBusinessDay(D`2023-08-03`).toString(),
+    "2023-08-06",
+  );
+  // Six-day week:
+  const sundayOnly = new BusinessCalendar({ weekendDays: [6] });
+  assertEquals(
+    sundayOnly.businessDaysBetween(D`2023-07-31`, D`2023-08-31`),
+    27,
+  );
+  assertThrows(
+    () => new BusinessCalendar({ weekendDays: [0, 1, 2, 3, 4, 5, 6] }),
+    Error,
+    "There must be at least one business day per week.",
+  );
+  assertThrows(
+    () => new BusinessCalendar({ weekendDays: [7] }),
+    Error,
+    "Invalid day of week (7).",
+  );
+});
+
+Deno.test("BusinessCalendar with a holiday provider", async (t) => {
+  const requestedYears: number[] = [];
+  // New Year's Day, observed on the nearest weekday:
+  const newYears = new BusinessCalendar({
+    holidays: (year) => {
+      requestedYears.push(year);
+      const date = CalendarDate.create(year, 1, 1);
+      const dayOfWeek = date.dayOfWeek;
+      return [
+        dayOfWeek === 5
+          ? date.addDays(-1)
+          : dayOfWeek === 6
+          ? date.addDays(1)
+          : date,
+      ];
+    },
+  });
+
+  await t.step("holidays can be moved into the previous year", () => {
+    // January 1, 2022 was a Saturday, so the holiday was observed on Friday, December 31, 2021.
+    assertEquals(newYears.isBusinessDay(D`2021-12-31`), false);
+    assertEquals(newYears.isBusinessDay(D`2022-01-03`), true);
+    assertEquals(
+      newYears.nextBusinessDay(D`2021-12-30`).toString(),
+      "2022-01-03",
+    );
+  });
+
+  await t.step("the provider is only called once per year", () => {
+    const count = requestedYears.length;
+    newYears.isBusinessDay(D`2021-12-30`);
+    newYears.businessDaysBetween(D`2021-06-01`, D`2022-06-01`);
+    assertEquals(requestedYears.length, count);
+  });
+
+  await t.step("matches counting day by day", () => {
+    const slowCount = (start: CalendarDate, end: CalendarDate) => {
+      let count = 0;
+      for (let date = start.addDays(1); date <= end; date = date.addDays(1)) {
+        if (newYears.isBusinessDay(date)) count++;
+      }
+      return count;
+    };
+    const start = D`2019-12-25`;
+    for (let days = 0; days < 1200; days += 37) {
+      const end = start.addDays(days);
+      const count = newYears.businessDaysBetween(start, end);
+      assertEquals(count, slowCount(start, end));
+      if (newYears.isBusinessDay(end) && count > 0) {
+        assertEquals(
+          newYears.addBusinessDays(start, count).toString(),
+          end.toString(),
+        );
+        assertEquals(
+          newYears.addBusinessDays(end, -count).toString(),
+          newYears.isBusinessDay(start)
+            ? start.toString()
+            : newYears.previousBusinessDay(start).toString(),
+        );
+      }
+    }
+  });
+});
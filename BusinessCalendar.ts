@@ -0,0 +1,214 @@
+import { CalendarDate } from "./CalendarDate.ts";
+
+/**
+ * A function that returns the holidays in a given year. Holidays that fall in a different year (e.g. New Year's Day
+ * observed on December 31 of the previous year) are fine; each date is counted in whichever year it falls.
+ */
+type HolidayProvider = (year: number) => Iterable<CalendarDate>;
+
+/** Options for BusinessCalendar */
+interface BusinessCalendarOptions {
+  /** The days of the week that aren't business days (0 = Monday, 6 = Sunday). Default: Saturday and Sunday. */
+  weekendDays?: Iterable<number>;
+  /** The holidays, either as a list of dates or a function that returns the holidays in a given year */
+  holidays?: Iterable<CalendarDate> | HolidayProvider;
+}
+
+/** Find the index of the first value in a sorted array that is >= the given value */
+const lowerBound = (sortedValues: readonly number[], value: number) => {
+  let low = 0, high = sortedValues.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sortedValues[mid] < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+/**
+ * A calendar of business days, defined by which days of the week are the weekend and which dates are holidays. Use it
+ * to do "business day" arithmetic, e.g. to find the date that is 10 business days after an invoice was issued.
+ *
+ * Counting business days doesn't loop over every day: whole weeks are counted arithmetically, and holidays are counted
+ * using a binary search of each year's (cached) holidays. So even spans of many years are fast.
+ */
+class BusinessCalendar {
+  /** For each day of the week (0 = Monday), is it a weekend day? */
+  readonly #weekend: readonly boolean[];
+  /** How many business days there are in a week without any holidays */
+  readonly #businessDaysPerWeek: number;
+  readonly #holidayProvider: HolidayProvider;
+  /** The holidays returned by the holiday provider for each year */
+  readonly #providedHolidays = new Map<number, CalendarDate[]>();
+  /** For each year, the sorted, unique values of the holidays in that year which would otherwise be business days */
+  readonly #holidayValues = new Map<number, number[]>();
+
+  constructor(options: BusinessCalendarOptions = {}) {
+    const weekend = [false, false, false, false, false, false, false];
+    for (const day of options.weekendDays ?? [5, 6]) {
+      if (!Number.isInteger(day) || day < 0 || day > 6) {
+        throw new Error(`Invalid day of week (${day}).`);
+      }
+      weekend[day] = true;
+    }
+    this.#weekend = weekend;
+    this.#businessDaysPerWeek = weekend.filter((isWeekend) => !isWeekend)
+      .length;
+    if (this.#businessDaysPerWeek === 0) {
+      throw new Error(`There must be at least one business day per week.`);
+    }
+
+    const holidays = options.holidays ?? [];
+    if (typeof holidays === "function") {
+      this.#holidayProvider = holidays;
+    } else {
+      const holidaysByYear = new Map<number, CalendarDate[]>();
+      for (const holiday of holidays) {
+        const list = holidaysByYear.get(holiday.year);
+        if (list) {
+          list.push(holiday);
+        } else {
+          holidaysByYear.set(holiday.year, [holiday]);
+        }
+      }
+      this.#holidayProvider = (year) => holidaysByYear.get(year) ?? [];
+    }
+  }
+
+  /** Is the given date a business day (not a weekend day, and not a holiday)? */
+  public isBusinessDay(date: CalendarDate): boolean {
+    if (this.#weekend[date.dayOfWeek]) {
+      return false;
+    }
+    const holidays = this.#getHolidayValues(date.year);
+    return holidays[lowerBound(holidays, date.value)] !== date.value;
+  }
+
+  /** Is the given date a holiday? (Holidays that fall on a weekend count, even though they aren't business days.) */
+  public isHoliday(date: CalendarDate): boolean {
+    const value = date.value;
+    return [date.year - 1, date.year, date.year + 1].some((year) =>
+      this.#getProvidedHolidays(year).some((holiday) => holiday.value === value)
+    );
+  }
+
+  /** Get the first business day after the given date */
+  public nextBusinessDay(date: CalendarDate): CalendarDate {
+    return this.addBusinessDays(date, 1);
+  }
+
+  /** Get the last business day before the given date */
+  public previousBusinessDay(date: CalendarDate): CalendarDate {
+    return this.addBusinessDays(date, -1);
+  }
+
+  /**
+   * Get the date that is the given number of business days after (or, if negative, before) the given date. For
+   * example, adding one business day to a Friday gives the following Monday (with a Saturday/Sunday weekend and no
+   * holidays). The result is always a business day, unless `businessDays` is zero, in which case the date is returned
+   * unchanged.
+   */
+  public addBusinessDays(
+    date: CalendarDate,
+    businessDays: number,
+  ): CalendarDate {
+    if (!Number.isInteger(businessDays)) {
+      throw new Error(`Non-integer number of business days.`);
+    }
+    const direction = Math.sign(businessDays);
+    let remaining = Math.abs(businessDays);
+    let current = date.value;
+    while (remaining > 0) {
+      // Jump ahead by whole weeks, as long as that can't overshoot. Holidays make each jump count for less than a full
+      // week, so we may need several jumps.
+      const weeks = Math.floor((remaining - 1) / this.#businessDaysPerWeek);
+      if (weeks > 0) {
+        const next = current + direction * weeks * 7;
+        remaining -= direction > 0
+          ? this.#countBusinessDays(current + 1, next + 1)
+          : this.#countBusinessDays(next, current);
+        current = next;
+      } else {
+        current += direction;
+        if (this.isBusinessDay(new CalendarDate(current))) {
+          remaining--;
+        }
+      }
+    }
+    return new CalendarDate(current);
+  }
+
+  /**
+   * Count the business days after `start`, up to and including `end`. If `end` is before `start`, the result is
+   * negative. So `businessDaysBetween(date, addBusinessDays(date, n))` is always `n`.
+   */
+  public businessDaysBetween(start: CalendarDate, end: CalendarDate): number {
+    return start.value <= end.value
+      ? this.#countBusinessDays(start.value + 1, end.value + 1)
+      : -this.#countBusinessDays(end.value + 1, start.value + 1);
+  }
+
+  /** Count the business days whose values are >= startValue and < endValue */
+  #countBusinessDays(startValue: number, endValue: number): number {
+    if (endValue <= startValue) {
+      return 0;
+    }
+    // First count the weekdays, without considering holidays:
+    const days = endValue - startValue;
+    let count = Math.floor(days / 7) * this.#businessDaysPerWeek;
+    const firstDayOfWeek = new CalendarDate(startValue).dayOfWeek;
+    for (let i = 0; i < days % 7; i++) {
+      if (!this.#weekend[(firstDayOfWeek + i) % 7]) {
+        count++;
+      }
+    }
+    // Then subtract the holidays:
+    const firstYear = new CalendarDate(startValue).year;
+    const lastYear = new CalendarDate(endValue - 1).year;
+    for (let year = firstYear; year <= lastYear; year++) {
+      const holidays = this.#getHolidayValues(year);
+      if (holidays.length > 0) {
+        count -= lowerBound(holidays, endValue) -
+          lowerBound(holidays, startValue);
+      }
+    }
+    return count;
+  }
+
+  /** Get the holidays that the holiday provider returns for the given year, caching the result */
+  #getProvidedHolidays(year: number): CalendarDate[] {
+    if (year < 1 || year > 9999) {
+      return [];
+    }
+    let holidays = this.#providedHolidays.get(year);
+    if (holidays === undefined) {
+      holidays = [...this.#holidayProvider(year)];
+      this.#providedHolidays.set(year, holidays);
+    }
+    return holidays;
+  }
+
+  /** Get the sorted values of the holidays that fall in the given year and aren't on the weekend */
+  #getHolidayValues(year: number): number[] {
+    let values = this.#holidayValues.get(year);
+    if (values === undefined) {
+      // A holiday can be moved into the previous or next year by observance rules, so check those years too:
+      const unique = new Set<number>();
+      for (const y of [year - 1, year, year + 1]) {
+        for (const holiday of this.#getProvidedHolidays(y)) {
+          if (holiday.year === year && !this.#weekend[holiday.dayOfWeek]) {
+            unique.add(holiday.value);
+          }
+        }
+      }
+      values = [...unique].sort((a, b) => a - b);
+      this.#holidayValues.set(year, values);
+    }
+    return values;
+  }
+}
+
+export { BusinessCalendar, type BusinessCalendarOptions, type HolidayProvider };
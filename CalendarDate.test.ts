@@ -1,4 +1,14 @@
-import { CalendarDate, D } from "./CalendarDate.ts";
+import {
+  CalendarDate,
+  type CalendarDateField,
+  CalendarDateParseError,
+  D,
+  type MonthOverflow,
+} from "./CalendarDate.ts";
+import { toIsoWeekString } from "./CalendarDateIsoWeek.ts";
+import { fromJulian, toJulianTriplet } from "./CalendarDateJulian.ts";
+import { toOrdinalString } from "./CalendarDateOrdinal.ts";
+import { parse } from "./CalendarDateParse.ts";
 import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
 
 const MONTHS = Object.freeze({
@@ -178,19 +188,66 @@ Deno.test("fromString()", async (t) => {
   }
 
   const badStrings = [
-    "hello",
-    "2016,01,01",
-    "05/05/05",
-    "2016-o1-o1",
+    ["hello", 'Expected 4-digit year. (at offset 0 in "hello")'],
+    ["2016,01,01", 'Expected "-". (at offset 4 in "2016,01,01")'],
+    ["05/05/05", 'Expected 4-digit year. (at offset 0 in "05/05/05")'],
+    ["2016-o1-o1", 'Expected 2-digit month. (at offset 5 in "2016-o1-o1")'],
   ];
 
-  for (const bad of badStrings) {
+  for (const [bad, message] of badStrings) {
     await t.step(`throws when asked to parse "${bad}"`, () => {
-      assertThrows(() => {
-        CalendarDate.fromString(bad);
-      }, "Date string not in YYYY-MM-DD or YYYYMMDD format");
+      assertThrows(
+        () => {
+          CalendarDate.fromString(bad);
+        },
+        CalendarDateParseError,
+        message,
+      );
     });
   }
+
+  await t.step("parses expanded years", () => {
+    assertEquals(
+      CalendarDate.fromString("+002024-01-05").toString(),
+      "2024-01-05",
+    );
+    assertEquals(
+      CalendarDate.fromString("+0020240105").toString(),
+      "2024-01-05",
+    );
+    assertEquals(
+      CalendarDate.fromString("+009999-12-31").toString(),
+      "9999-12-31",
+    );
+  });
+
+  await t.step("reports which field is invalid, and where", () => {
+    // deno-fmt-ignore
+    const cases: [input: string, field: CalendarDateField | undefined, offset: number, message: string][] = [
+      ["2024-1a-05", "month", 5, "Expected 2-digit month."],
+      ["2024-01-0x", "day", 8, "Expected 2-digit day."],
+      ["2024-01-05x", undefined, 10, 'Unexpected "x".'],
+      ["+2024-01-05", "year", 1, "Expected 6-digit year."],
+      ["+002024-13-05", "month", 8, "Month out of range."],
+      ["+002023-02-29", "day", 11, "Day out of range."],
+      ["+010000-01-01", "year", 0, "Year out of range."],
+      // Week dates and ordinal dates need parse(), from the "parse" module:
+      ["2024-W01-5", "month", 5, "Expected 2-digit month."],
+      ["2024-005", undefined, 7, 'Expected "-".'],
+    ];
+    for (const [input, field, offset, message] of cases) {
+      const err = assertThrows(
+        () => CalendarDate.fromString(input),
+        CalendarDateParseError,
+      );
+      assertEquals(err.field, field, input);
+      assertEquals(err.offset, offset, input);
+      assertEquals(
+        err.message,
+        `${message} (at offset ${offset} in "${input}")`,
+      );
+    }
+  });
 });
 
 Deno.test("D can be used to create a date string literal", () => {
@@ -332,6 +389,37 @@ Deno.test("toEpochMs", () => {
   assertEquals(D`1969-12-31`.toEpochMs(), -86400 * 1000);
 });
 
+Deno.test("toEpochDays() and fromEpochDays()", () => {
+  assertEquals(D`1970-01-01`.toEpochDays(), 0);
+  assertEquals(D`1969-12-31`.toEpochDays(), -1);
+  assertEquals(D`2024-02-29`.toEpochDays(), 19782);
+  assertEquals(D`0001-01-01`.toEpochDays(), -719162);
+  assertEquals(D`9999-12-31`.toEpochDays(), 2932896);
+  for (const date of [D`1970-01-01`, D`0001-01-01`, D`9999-12-31`]) {
+    assertEquals(
+      CalendarDate.fromEpochDays(date.toEpochDays()).toString(),
+      date.toString(),
+    );
+  }
+  // The same as Date, for dates that it can represent:
+  assertEquals(D`2024-02-29`.toEpochDays() * 86_400_000, Date.UTC(2024, 1, 29));
+  assertThrows(
+    () => CalendarDate.fromEpochDays(-719163),
+    Error,
+    "Epoch day (-719163) out of range.",
+  );
+  assertThrows(
+    () => CalendarDate.fromEpochDays(2932897),
+    Error,
+    "out of range",
+  );
+  assertThrows(
+    () => CalendarDate.fromEpochDays(1.5),
+    Error,
+    "Non-integer date value.",
+  );
+});
+
 Deno.test("toDate()", async (t) => {
   for (
     const dateStr of [
@@ -475,6 +563,82 @@ Deno.test(".add()", async (t) => {
     assertEquals(D`2000-12-31`.addMonths(-25), D`1998-11-30`);
   });
 
+  await t.step("add months with different overflow behaviors", () => {
+    const add = (date: CalendarDate, months: number, overflow: MonthOverflow) =>
+      date.addMonths(months, { overflow }).toString();
+    // constrain (the default):
+    assertEquals(add(D`2001-01-31`, 1, "constrain"), "2001-02-28");
+    assertEquals(add(D`2001-02-28`, 1, "constrain"), "2001-03-28");
+    // rollover:
+    assertEquals(add(D`2001-01-31`, 1, "rollover"), "2001-03-03");
+    assertEquals(add(D`2004-01-31`, 1, "rollover"), "2004-03-02");
+    assertEquals(add(D`2001-03-31`, 1, "rollover"), "2001-05-01");
+    assertEquals(add(D`2001-01-30`, 2, "rollover"), "2001-03-30");
+    assertEquals(add(D`2001-03-31`, -1, "rollover"), "2001-03-03");
+    // reject:
+    assertEquals(add(D`2001-01-28`, 1, "reject"), "2001-02-28");
+    assertThrows(
+      () => add(D`2001-01-31`, 1, "reject"),
+      Error,
+      "Day out of range (2001-2 only has 28 days).",
+    );
+    // end of month:
+    assertEquals(add(D`2001-01-31`, 1, "endOfMonth"), "2001-02-28");
+    assertEquals(add(D`2001-02-28`, 1, "endOfMonth"), "2001-03-31");
+    assertEquals(add(D`2001-04-30`, -2, "endOfMonth"), "2001-02-28");
+    assertEquals(add(D`2004-04-30`, -2, "endOfMonth"), "2004-02-29");
+    assertEquals(add(D`2001-02-27`, 1, "endOfMonth"), "2001-03-27");
+    assertEquals(add(D`2001-03-30`, 1, "endOfMonth"), "2001-04-30");
+    assertEquals(add(D`2001-04-30`, 1, "endOfMonth"), "2001-05-31");
+  });
+
+  await t.step("add years with different overflow behaviors", () => {
+    const add = (date: CalendarDate, years: number, overflow: MonthOverflow) =>
+      date.addYears(years, { overflow }).toString();
+    // rollover (the default):
+    assertEquals(add(D`2000-02-29`, 1, "rollover"), "2001-03-01");
+    assertEquals(D`2000-02-29`.addYears(1).toString(), "2001-03-01");
+    // constrain:
+    assertEquals(add(D`2000-02-29`, 1, "constrain"), "2001-02-28");
+    assertEquals(add(D`2000-02-29`, 4, "constrain"), "2004-02-29");
+    // reject:
+    assertThrows(
+      () => add(D`2000-02-29`, 1, "reject"),
+      Error,
+      "Day out of range",
+    );
+    assertEquals(add(D`2000-02-29`, 4, "reject"), "2004-02-29");
+    // end of month:
+    assertEquals(add(D`2000-02-29`, 1, "endOfMonth"), "2001-02-28");
+    assertEquals(add(D`2001-02-28`, 3, "endOfMonth"), "2004-02-29");
+    assertEquals(add(D`2001-02-28`, 3, "constrain"), "2004-02-28");
+  });
+
+  await t.step("add() and subtract() with overflow options", () => {
+    assertEquals(
+      D`2001-01-31`.add({ months: 1 }, { overflow: "rollover" }).toString(),
+      "2001-03-03",
+    );
+    assertEquals(
+      D`2001-02-28`.subtract({ months: 1 }, { overflow: "endOfMonth" })
+        .toString(),
+      "2001-01-31",
+    );
+  });
+
+  await t.step("rejects invalid overflow options", () => {
+    const options = { overflow: "clamp" as MonthOverflow };
+    const message = 'Invalid overflow option "clamp".';
+    assertThrows(() => D`2001-01-31`.addMonths(1, options), Error, message);
+    assertThrows(() => D`2001-01-31`.addYears(1, options), Error, message);
+    assertThrows(() => D`2001-01-31`.add({ days: 1 }, options), Error, message);
+    assertThrows(
+      () => D`2001-01-31`.subtract({ months: 1 }, options),
+      Error,
+      message,
+    );
+  });
+
   await t.step("add days", () => {
     // December 31, 2020:
     assertEquals(D`2020-12-31`.addDays(0), D`2020-12-31`);
@@ -564,3 +728,355 @@ Deno.test("computing age", async (t) => {
     assertEquals(age(D`2023-05-01`, D`2024-04-28`), 0);
   });
 });
+
+Deno.test("differences between dates", async (t) => {
+  await t.step("daysSince()", () => {
+    assertEquals(D`2020-03-01`.daysSince(D`2020-02-28`), 2);
+    assertEquals(D`2021-03-01`.daysSince(D`2021-02-28`), 1);
+    assertEquals(D`2021-01-01`.daysSince(D`2020-01-01`), 366);
+    assertEquals(D`2020-01-01`.daysSince(D`2020-01-01`), 0);
+    assertEquals(D`2020-01-01`.daysSince(D`2020-01-11`), -10);
+  });
+
+  await t.step("fullWeeksSince()", () => {
+    assertEquals(D`2023-08-14`.fullWeeksSince(D`2023-08-01`), 1);
+    assertEquals(D`2023-08-15`.fullWeeksSince(D`2023-08-01`), 2);
+    assertEquals(D`2023-08-07`.fullWeeksSince(D`2023-08-01`), 0);
+    assertEquals(D`2023-08-01`.fullWeeksSince(D`2023-08-15`), -2);
+    assertEquals(D`2023-08-01`.fullWeeksSince(D`2023-08-14`), -1);
+  });
+
+  await t.step("fullMonthsSince()", () => {
+    assertEquals(D`2023-09-14`.fullMonthsSince(D`2023-08-15`), 0);
+    assertEquals(D`2023-09-15`.fullMonthsSince(D`2023-08-15`), 1);
+    assertEquals(D`2024-09-15`.fullMonthsSince(D`2023-08-15`), 13);
+    // Consistent with how addMonths() handles the end of the month:
+    assertEquals(D`2023-02-27`.fullMonthsSince(D`2023-01-31`), 0);
+    assertEquals(D`2023-02-28`.fullMonthsSince(D`2023-01-31`), 1);
+    assertEquals(D`2023-04-30`.fullMonthsSince(D`2023-01-31`), 3);
+    // Negative:
+    assertEquals(D`2023-08-15`.fullMonthsSince(D`2023-09-15`), -1);
+    assertEquals(D`2023-08-16`.fullMonthsSince(D`2023-09-15`), 0);
+    assertEquals(D`2023-02-28`.fullMonthsSince(D`2023-03-31`), -1);
+  });
+
+  await t.step("until()", () => {
+    assertEquals(D`2020-01-01`.until(D`2020-01-01`), {
+      years: 0,
+      months: 0,
+      days: 0,
+    });
+    assertEquals(D`2020-01-15`.until(D`2023-03-20`), {
+      years: 3,
+      months: 2,
+      days: 5,
+    });
+    assertEquals(D`2023-01-31`.until(D`2023-03-01`), {
+      years: 0,
+      months: 1,
+      days: 1,
+    });
+    assertEquals(D`2023-03-20`.until(D`2020-01-15`), {
+      years: -3,
+      months: -2,
+      days: -5,
+    });
+    assertEquals(D`2023-03-31`.until(D`2023-02-27`), {
+      years: 0,
+      months: -1,
+      days: -1,
+    });
+  });
+
+  await t.step("until() round-trips using addMonths() and addDays()", () => {
+    const dates = [
+      D`2019-12-31`,
+      D`2020-01-30`,
+      D`2020-01-31`,
+      D`2020-02-28`,
+      D`2020-02-29`,
+      D`2020-03-01`,
+      D`2020-03-31`,
+      D`2021-02-28`,
+      D`2021-06-15`,
+      D`2024-02-29`,
+    ];
+    for (const a of dates) {
+      for (const b of dates) {
+        const { years, months, days } = a.until(b);
+        assertEquals(
+          a.addMonths(years * 12 + months).addDays(days).toString(),
+          b.toString(),
+          `${a} + (${years}, ${months}, ${days}) should be ${b}`,
+        );
+      }
+    }
+  });
+});
+
+Deno.test("add() and subtract() a duration", async (t) => {
+  await t.step("add", () => {
+    assertEquals(D`2020-01-01`.add({}).toString(), "2020-01-01");
+    assertEquals(D`2020-01-01`.add({ days: 1 }).toString(), "2020-01-02");
+    assertEquals(D`2020-01-01`.add({ weeks: 2 }).toString(), "2020-01-15");
+    assertEquals(
+      D`2020-01-01`.add({ years: 1, months: 2 }).toString(),
+      "2021-03-01",
+    );
+    assertEquals(D`2020-01-01`.add({ months: -1 }).toString(), "2019-12-01");
+    // Years and months are added first, then weeks and days:
+    assertEquals(
+      D`2001-01-31`.add({ months: 1, days: 1 }).toString(),
+      "2001-03-01",
+    );
+    assertEquals(
+      D`2001-01-31`.add({ months: 1, weeks: 1 }).toString(),
+      "2001-03-07",
+    );
+    // Unlike addYears(), adding a year to Feb. 29 clamps to Feb. 28, like Temporal.PlainDate.add():
+    assertEquals(D`2000-02-29`.add({ years: 1 }).toString(), "2001-02-28");
+  });
+
+  await t.step("subtract", () => {
+    assertEquals(D`2020-01-01`.subtract({ days: 1 }).toString(), "2019-12-31");
+    assertEquals(
+      D`2020-03-31`.subtract({ months: 1 }).toString(),
+      "2020-02-29",
+    );
+    // Years and months are subtracted first, then weeks and days:
+    assertEquals(
+      D`2001-03-31`.subtract({ months: 1, days: 1 }).toString(),
+      "2001-02-27",
+    );
+  });
+
+  await t.step("a.add(a.until(b)) gives b", () => {
+    const dates = [D`2020-01-31`, D`2020-02-29`, D`2021-02-28`, D`2023-08-15`];
+    for (const a of dates) {
+      for (const b of dates) {
+        assertEquals(a.add(a.until(b)).toString(), b.toString());
+      }
+    }
+  });
+});
+
+Deno.test("relative date helpers", async (t) => {
+  await t.step("start and end of month, quarter, and year", () => {
+    const date = D`2024-02-14`;
+    assertEquals(date.startOfMonth().toString(), "2024-02-01");
+    assertEquals(date.endOfMonth().toString(), "2024-02-29");
+    assertEquals(D`2023-02-14`.endOfMonth().toString(), "2023-02-28");
+    assertEquals(date.startOfQuarter().toString(), "2024-01-01");
+    assertEquals(date.endOfQuarter().toString(), "2024-03-31");
+    assertEquals(date.startOfYear().toString(), "2024-01-01");
+    assertEquals(date.endOfYear().toString(), "2024-12-31");
+    for (let month = 1; month <= 12; month++) {
+      const d = CalendarDate.create(2023, month, 15);
+      assertEquals(d.startOfQuarter().month, month - (month - 1) % 3);
+      assertEquals(
+        d.endOfQuarter().toString(),
+        d.startOfQuarter().addMonths(3).addDays(-1).toString(),
+      );
+      assertEquals(
+        d.endOfMonth().addDays(1).toString(),
+        d.addMonths(1).startOfMonth().toString(),
+      );
+    }
+    assertEquals(D`0001-01-01`.startOfYear().toString(), "0001-01-01");
+    assertEquals(D`9999-12-31`.endOfQuarter().toString(), "9999-12-31");
+  });
+
+  await t.step("start and end of week", () => {
+    // Wednesday, August 16, 2023:
+    const date = D`2023-08-16`;
+    assertEquals(date.startOfWeek().toString(), "2023-08-14");
+    assertEquals(date.endOfWeek().toString(), "2023-08-20");
+    assertEquals(
+      date.startOfWeek({ weekStartsOn: 6 }).toString(),
+      "2023-08-13",
+    );
+    assertEquals(date.endOfWeek({ weekStartsOn: 6 }).toString(), "2023-08-19");
+    assertEquals(
+      date.startOfWeek({ weekStartsOn: 2 }).toString(),
+      "2023-08-16",
+    );
+    assertEquals(
+      date.startOfWeek({ weekStartsOn: 3 }).toString(),
+      "2023-08-10",
+    );
+    assertThrows(
+      () => date.startOfWeek({ weekStartsOn: 7 }),
+      Error,
+      "Invalid day of week (7).",
+    );
+  });
+
+  await t.step("next and previous weekday", () => {
+    // Wednesday, August 16, 2023:
+    const date = D`2023-08-16`;
+    assertEquals(date.nextWeekday(4).toString(), "2023-08-18");
+    assertEquals(date.nextWeekday(2).toString(), "2023-08-23");
+    assertEquals(date.nextWeekday(0).toString(), "2023-08-21");
+    assertEquals(date.previousWeekday(0).toString(), "2023-08-14");
+    assertEquals(date.previousWeekday(2).toString(), "2023-08-09");
+    assertEquals(date.previousWeekday(4).toString(), "2023-08-11");
+    assertThrows(
+      () => date.nextWeekday(-1),
+      Error,
+      "Invalid day of week (-1).",
+    );
+  });
+
+  await t.step("nthWeekdayOfMonth()", () => {
+    const nth = (year: number, month: number, dayOfWeek: number, n: number) =>
+      CalendarDate.nthWeekdayOfMonth(year, month, dayOfWeek, n)?.toString();
+    assertEquals(nth(2023, 11, 3, 4), "2023-11-23"); // US Thanksgiving
+    assertEquals(nth(2023, 5, 0, -1), "2023-05-29"); // US Memorial Day
+    assertEquals(nth(2023, 9, 0, 1), "2023-09-04"); // Labour Day
+    assertEquals(nth(2023, 3, 4, 5), "2023-03-31");
+    assertEquals(nth(2023, 3, 4, -5), "2023-03-03");
+    assertEquals(nth(2025, 3, 4, 5), undefined);
+    assertEquals(nth(2025, 3, 4, -5), undefined);
+    assertEquals(nth(2024, 2, 3, 5), "2024-02-29");
+    assertEquals(nth(2023, 2, 3, 5), undefined);
+    assertThrows(
+      () => nth(2023, 1, 0, 0),
+      Error,
+      "Weekday occurrence (0) out of range.",
+    );
+    assertThrows(
+      () => nth(2023, 1, 0, 6),
+      Error,
+      "Weekday occurrence (6) out of range.",
+    );
+    assertThrows(() => nth(2023, 1, 7, 1), Error, "Invalid day of week (7).");
+  });
+});
+
+Deno.test("extended range", async (t) => {
+  await t.step("is not enabled by default", () => {
+    assertEquals(CalendarDate.isExtendedRangeEnabled, false);
+    assertThrows(() => new CalendarDate(365), Error, "out of range");
+    assertThrows(
+      () => CalendarDate.fromString("-000044-03-15"),
+      CalendarDateParseError,
+      "Year out of range.",
+    );
+    assertThrows(() => CalendarDate.create(10000, 1, 1), Error, "out of range");
+    assertEquals(
+      new CalendarDate(CalendarDate.minValue).toString(),
+      "0001-01-01",
+    );
+    assertEquals(
+      new CalendarDate(CalendarDate.maxValue).toString(),
+      "9999-12-31",
+    );
+  });
+
+  CalendarDate.enableExtendedRange();
+  try {
+    await t.step("minValue and maxValue", () => {
+      assertEquals(
+        new CalendarDate(CalendarDate.minValue).toString(),
+        "-271821-01-01",
+      );
+      assertEquals(
+        new CalendarDate(CalendarDate.maxValue).toString(),
+        "+275760-12-31",
+      );
+    });
+
+    await t.step("supports negative (astronomical) years", () => {
+      const date = CalendarDate.fromString("-000044-03-15");
+      assertEquals([date.year, date.month, date.day], [-44, 3, 15]);
+      assertEquals(date.dayOfWeek, DAYS.THU);
+      assertEquals(date.toString(), "-000044-03-15");
+      assertEquals(toIsoWeekString(date), "-000044-W11-4");
+      assertEquals(toOrdinalString(date), "-000044-075");
+      assertEquals(date.toEpochDays(), -735525);
+      assertEquals(CalendarDate.create(-44, 3, 15).equals(date), true);
+      // The Ides of March, 44 BCE (year -43), in the Julian calendar:
+      const ides = fromJulian(-43, 3, 15);
+      assertEquals(ides.toString(), "-000043-03-13");
+      assertEquals(toJulianTriplet(ides), { year: -43, month: 3, day: 15 });
+    });
+
+    await t.step("year 0 is 1 BCE, a leap year", () => {
+      assertEquals(D`0001-01-01`.addDays(-1).toString(), "0000-12-31");
+      assertEquals(CalendarDate.create(0, 2, 29).toString(), "0000-02-29");
+      assertEquals(D`0001-01-15`.addMonths(-1).toString(), "0000-12-15");
+      assertEquals(D`0001-01-15`.addYears(-2).toString(), "-000001-01-15");
+      assertEquals(CalendarDate.fromString("+000000-01-01").value, 0);
+      assertThrows(
+        () => CalendarDate.fromString("-000000-01-01"),
+        CalendarDateParseError,
+        'Year zero must be written as "+000000".',
+      );
+      // A sign is only allowed in a six-digit expanded year:
+      for (const str of ["-000-01-01", "-0000101", "+000-01-01", "+0000101"]) {
+        assertThrows(
+          () => CalendarDate.fromString(str),
+          CalendarDateParseError,
+          undefined,
+          str,
+        );
+        assertThrows(
+          () => parse(str),
+          CalendarDateParseError,
+          undefined,
+          str,
+        );
+      }
+    });
+
+    await t.step("supports years after 9999", () => {
+      const date = D`9999-12-31`.addDays(1);
+      assertEquals([date.year, date.month, date.day], [10000, 1, 1]);
+      assertEquals(date.toString(), "+010000-01-01");
+      assertEquals(CalendarDate.fromString("+010000-01-01").equals(date), true);
+      assertEquals(
+        CalendarDate.create(123456, 7, 8).toString(),
+        "+123456-07-08",
+      );
+    });
+
+    await t.step("covers all of Temporal's range", () => {
+      const min = CalendarDate.create(-271821, 1, 1);
+      const max = CalendarDate.create(275760, 12, 31);
+      assertEquals(min.toString(), "-271821-01-01");
+      assertEquals(max.toString(), "+275760-12-31");
+      assertThrows(() => min.addDays(-1), Error, "out of range");
+      assertThrows(() => max.addDays(1), Error, "out of range");
+      assertThrows(() => CalendarDate.fromEpochDays(max.toEpochDays() + 1));
+      assertEquals(
+        CalendarDate.fromPlainDate(Temporal.PlainDate.from("-271821-04-19"))
+          .toString(),
+        "-271821-04-19",
+      );
+      assertEquals(
+        CalendarDate.create(275760, 9, 13).toPlainDate().toString(),
+        "+275760-09-13",
+      );
+    });
+
+    await t.step("fields are consistent across the whole range", () => {
+      for (
+        let value = CalendarDate.create(-271821, 1, 1).value;
+        value <= CalendarDate.create(275760, 12, 31).value;
+        value += 9973
+      ) {
+        const date = new CalendarDate(value);
+        assertEquals(
+          CalendarDate.create(date.year, date.month, date.day).value,
+          value,
+        );
+        assertEquals(CalendarDate.fromString(date.toString()).value, value);
+        assertEquals(parse(toIsoWeekString(date)).value, value);
+        assertEquals(date.dayOfWeek, ((value + 5) % 7 + 7) % 7);
+      }
+    });
+  } finally {
+    CalendarDate.enableExtendedRange(false);
+  }
+  assertEquals(CalendarDate.isExtendedRangeEnabled, false);
+});
@@ -1,3 +1,6 @@
+import { CalendarMonthDay } from "./CalendarMonthDay.ts";
+import { CalendarYearMonth } from "./CalendarYearMonth.ts";
+
 /** Array that represents the cumulative number of days in a non-leap year up to the start of a given month */
 const MONTH_SUMS_NORMAL_YEAR = Object.freeze([
   NaN, // we use 1-indexed months, so there's no entry at the zero index.
@@ -26,6 +29,17 @@ const optimizedDaysInMonth = (month: number): 30 | 31 =>
 const extractInt = (someString: string, start: number, len = 2) =>
   Number(someString.substring(start, start + len));
 
+/** Helper to count how many consecutive digits there are in a string, starting at the given position. */
+const countDigits = (someString: string, start: number, end: number) => {
+  let pos = start;
+  while (pos < end) {
+    const charCode = someString.charCodeAt(pos);
+    if (charCode < 48 || charCode > 57) break; // Not "0"-"9"
+    pos++;
+  }
+  return pos - start;
+};
+
 /** Character code of the letter A, used for the cached strings below */
 const MONTHS_CHAR_OFFSET = "A".charCodeAt(0) - 1;
 
@@ -44,6 +58,172 @@ const end = "CDEFGHIJKL".split("").map((x, i) =>
 const NORMAL_YEAR = pre + end;
 const LEAP_YEAR = pre + "B" + end;
 
+/**
+ * The range of date values that the fast code paths work for: 0001-01-01 to 9999-12-31. This is also the range of
+ * supported dates unless the extended range is enabled with CalendarDate.enableExtendedRange().
+ */
+const COMMON_MIN_VALUE = 366;
+const COMMON_MAX_VALUE = 3652424;
+/** The extended range of date values: -271821-01-01 to 275760-12-31, which includes all of Temporal's range */
+const EXTENDED_MIN_VALUE = -99280581;
+const EXTENDED_MAX_VALUE = 100719637;
+/** The number of days in 400 years, after which the Gregorian calendar repeats (including the days of the week) */
+const DAYS_PER_400_YEARS = 146097;
+
+/** The range of date values that are currently supported */
+let minValue = COMMON_MIN_VALUE;
+let maxValue = COMMON_MAX_VALUE;
+
+/**
+ * For a date value outside of the common range, get how many 400-year cycles it needs to be moved by to be in years
+ * 1-400, so that the fast code paths can be used to compute its fields.
+ */
+const cyclesFromCommonRange = (daysValue: number): number =>
+  Math.floor((daysValue - COMMON_MIN_VALUE) / DAYS_PER_400_YEARS);
+
+/** Get the year of a date value */
+const yearOfValue = (daysValue: number): number => {
+  if (daysValue < COMMON_MIN_VALUE || daysValue > COMMON_MAX_VALUE) {
+    return extendedYearOfValue(daysValue);
+  }
+  const centuries = (daysValue / 36525) | 0;
+  return (daysValue + centuries - (centuries / 4 | 0)) / 365.25 | 0;
+};
+
+/**
+ * Get the year of a date value outside of the common range. This is kept out of yearOfValue() so that it stays small
+ * and fast. The formula there doesn't work here, but it does 400*n years later.
+ */
+const extendedYearOfValue = (daysValue: number): number => {
+  const cycles = cyclesFromCommonRange(daysValue);
+  return yearOfValue(daysValue - cycles * DAYS_PER_400_YEARS) + cycles * 400;
+};
+
+/** Get the month (1-12) of a date value */
+const monthOfValue = (daysValue: number): number => {
+  if (daysValue < COMMON_MIN_VALUE || daysValue > COMMON_MAX_VALUE) {
+    return monthOfValue(
+      daysValue - cyclesFromCommonRange(daysValue) * DAYS_PER_400_YEARS,
+    );
+  }
+  const year = yearOfValue(daysValue);
+  // Compute the number of days between January 1, year 0 and the first day of the given year:
+  const d = yearStartValue(year);
+  if (CalendarDate.isLeapYear(year)) {
+    return LEAP_YEAR.charCodeAt(daysValue - d) - MONTHS_CHAR_OFFSET;
+  } else {
+    return NORMAL_YEAR.charCodeAt(daysValue - d) - MONTHS_CHAR_OFFSET;
+  }
+};
+
+/** Get the day of the week (0 = Monday, 6 = Sunday) of a date value, including negative ones */
+const dayOfWeekOfValue = (daysValue: number): number =>
+  ((daysValue + 5) % 7 + 7) % 7;
+
+/**
+ * Format a year for an ISO 8601 string: four digits for years 0-9999, or otherwise an expanded year with a sign and
+ * six digits, e.g. "-000044" for 45 BCE.
+ */
+const formatIsoYear = (year: number): string =>
+  year >= 0 && year <= 9999
+    ? String(year).padStart(4, "0")
+    : (year < 0 ? "-" : "+") + String(Math.abs(year)).padStart(6, "0");
+
+/**
+ * Read the year at the start of an ISO 8601 date string: either four digits, or a sign and six digits (an ISO 8601
+ * expanded year, e.g. "+002024"). Returns the year and the position just after it.
+ */
+const parseIsoYear = (
+  str: string,
+  start = 0,
+  end = str.length,
+): [year: number, pos: number] => {
+  const sign = start < end ? str.charAt(start) : "";
+  const signed = sign === "+" || sign === "-";
+  const pos = signed ? start + 1 : start;
+  const digits = signed ? 6 : 4;
+  if (countDigits(str, pos, end) < digits) {
+    throw new CalendarDateParseError(
+      `Expected ${digits}-digit year.`,
+      str,
+      "year",
+      pos,
+    );
+  }
+  const year = extractInt(str, pos, digits);
+  if (sign === "-" && year === 0) {
+    throw new CalendarDateParseError(
+      `Year zero must be written as "+000000".`,
+      str,
+      "year",
+      start,
+    );
+  }
+  return [sign === "-" ? -year : year, pos + digits];
+};
+
+/**
+ * Parse an ISO 8601 date string "YYYY-MM-DD" or "YYYYMMDD" (optionally with an expanded year) into a date value. This is
+ * the slow path of CalendarDate.fromString(), for strings that aren't in one of the most common formats.
+ */
+const parseDateValue = (str: string): number => {
+  const fail = (
+    message: string,
+    field: CalendarDateField | undefined,
+    offset: number,
+  ): never => {
+    throw new CalendarDateParseError(message, str, field, offset);
+  };
+  const [year, yearEnd] = parseIsoYear(str);
+  let pos = yearEnd;
+  const extended = str.charAt(pos) === "-";
+  if (extended) {
+    pos++;
+  } else if (pos < str.length && countDigits(str, pos, str.length) === 0) {
+    // e.g. "2024,01,05" or "2024/01/05"
+    fail(`Expected "-".`, undefined, pos);
+  }
+  const monthOffset = pos;
+  if (countDigits(str, pos, str.length) < 2) {
+    fail(`Expected 2-digit month.`, "month", pos);
+  }
+  const month = extractInt(str, pos);
+  pos += 2;
+  if (extended) {
+    if (str.charAt(pos) !== "-") fail(`Expected "-".`, undefined, pos);
+    pos++;
+  }
+  const dayOffset = pos;
+  if (countDigits(str, pos, str.length) < 2) {
+    fail(`Expected 2-digit day.`, "day", pos);
+  }
+  const day = extractInt(str, pos);
+  pos += 2;
+  if (pos < str.length) {
+    fail(`Unexpected "${str.charAt(pos)}".`, undefined, pos);
+  }
+  const yearStart = yearStartValue(year);
+  if (yearStart < minValue || yearStart > maxValue) {
+    fail(`Year out of range.`, "year", 0);
+  } else if (month < 1 || month > 12) {
+    fail(`Month out of range.`, "month", monthOffset);
+  } else if (day < 1 || day > CalendarDate.daysInMonth(year, month)) {
+    fail(`Day out of range.`, "day", dayOffset);
+  }
+  return tripletToDaysValue(year, month, day);
+};
+
+/** Get the date value of January 1 of the given year (which can be negative) */
+const yearStartValue = (year: number): number => {
+  if (year < 0) {
+    // The formula below only works for non-negative years, so count from a year that's a multiple of 400 years later:
+    const cycles = Math.floor(year / 400);
+    return yearStartValue(year - cycles * 400) + cycles * DAYS_PER_400_YEARS;
+  }
+  return (year * 365) + ((year + 3) / 4 | 0) - ((year + 99) / 100 | 0) +
+    ((year + 399) / 400 | 0);
+};
+
 /**
  * Internal helper method.
  * Given a year, month, and day triplet, return
@@ -61,15 +241,119 @@ const tripletToDaysValue = (
   if (day <= 0 || day > CalendarDate.daysInMonth(year, month)) {
     throw new Error(`Day out of range.`);
   }
-  let daysValue = (year * 365) + ((year + 3) / 4 | 0) -
-    ((year + 99) / 100 | 0) + ((year + 399) / 400 | 0)
-    + MONTH_SUMS_NORMAL_YEAR[month] + day - 1;
+  let daysValue = yearStartValue(year) + MONTH_SUMS_NORMAL_YEAR[month] +
+    day - 1;
   if (CalendarDate.isLeapYear(year) && month > 2) {
     daysValue++;
   }
   return daysValue;
 };
 
+/**
+ * Throw an error if a Temporal object doesn't use the ISO 8601 calendar. Otherwise its year, month, and day would be in
+ * some other calendar (e.g. 5784-05-05 in the Hebrew calendar), which would silently give the wrong date.
+ */
+const validateIsoCalendar = (temporalObject: { calendarId: string }): void => {
+  if (temporalObject.calendarId !== "iso8601") {
+    throw new Error(
+      `Unsupported calendar "${temporalObject.calendarId}". Only the "iso8601" calendar is supported.`,
+    );
+  }
+};
+
+/** Throw an error if the given number isn't a valid day of the week (0 = Monday, 6 = Sunday) */
+const validateDayOfWeek = (dayOfWeek: number): void => {
+  if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+    throw new Error(`Invalid day of week (${dayOfWeek}).`);
+  }
+};
+
+/**
+ * An amount of calendar time that can be added to or subtracted from a CalendarDate, e.g. `{ months: 1, days: 2 }`.
+ * Any fields that aren't specified are zero. A CalendarDuration can be used wherever one of these is expected.
+ */
+interface CalendarDurationLike {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+}
+
+/**
+ * How to handle adding months or years to a date when the resulting month doesn't have enough days, e.g. Jan. 31 plus
+ * one month:
+ * - "constrain": use the last day of the month instead (Feb. 28)
+ * - "rollover": roll the extra days over into the following month (Mar. 3)
+ * - "reject": throw an error
+ * - "endOfMonth": like "constrain", but if the original date is the last day of its month, the result is always the
+ *   last day of its month too (e.g. Feb. 28 plus one month is Mar. 31)
+ */
+type MonthOverflow = "constrain" | "rollover" | "reject" | "endOfMonth";
+
+/** Options for addMonths(), addYears(), add(), subtract(), and CalendarMonthDay.inYear() and .addMonths() */
+interface AddMonthsOptions {
+  overflow?: MonthOverflow;
+}
+
+/** Get the `overflow` option, or the default if it isn't set. Throws an error if it isn't a valid MonthOverflow. */
+const getOverflow = (
+  options: AddMonthsOptions,
+  defaultOverflow: MonthOverflow,
+): MonthOverflow => {
+  const overflow = options.overflow ?? defaultOverflow;
+  if (!["constrain", "rollover", "reject", "endOfMonth"].includes(overflow)) {
+    throw new Error(`Invalid overflow option "${overflow}".`);
+  }
+  return overflow;
+};
+
+/** Options for startOfWeek() and endOfWeek() */
+interface WeekOptions {
+  /** The first day of the week (0 = Monday, the default, 6 = Sunday) */
+  weekStartsOn?: number;
+}
+
+/** A year, month (1-12) and day (1-31), e.g. a date in a calendar other than the Gregorian calendar */
+interface DateTriplet {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/** The parts of a date string that CalendarDate.fromString() and parse() can report as invalid */
+type CalendarDateField =
+  | "year"
+  | "month"
+  | "day"
+  | "week"
+  | "weekday"
+  | "dayOfYear";
+
+/**
+ * Error thrown by CalendarDate.fromString() and parse() when a string isn't a valid date.
+ */
+class CalendarDateParseError extends Error {
+  /** The string that couldn't be parsed */
+  readonly input: string;
+  /** Which part of the date was invalid, or undefined if the string isn't in a recognized format */
+  readonly field: CalendarDateField | undefined;
+  /** The position in the string where the problem was found */
+  readonly offset: number;
+
+  constructor(
+    message: string,
+    input: string,
+    field: CalendarDateField | undefined,
+    offset: number,
+  ) {
+    super(`${message} (at offset ${offset} in "${input}")`);
+    this.name = "CalendarDateParseError";
+    this.input = input;
+    this.field = field;
+    this.offset = offset;
+  }
+}
+
 /**
  * A calendar date, using the Gregorian calendar. Does not have any time component.
  */
@@ -78,7 +362,8 @@ class CalendarDate {
   readonly #value: number;
 
   /**
-   * Construct a CalendarDate from a triple of year (1-9999), month (1-12), day (1-31)
+   * Construct a CalendarDate from a triple of year (1-9999, unless the extended range is enabled), month (1-12), day
+   * (1-31)
    * @param year Year (e.g. 2012)
    * @param month Month (1 for January, 12 for December)
    * @param day Day (1-31)
@@ -87,12 +372,22 @@ class CalendarDate {
     return new CalendarDate(tripletToDaysValue(year, month, day));
   }
 
+  /**
+   * Convert a Temporal.PlainDate to a CalendarDate. It must use the ISO 8601 calendar; to convert a date from some other
+   * calendar, use `pd.withCalendar("iso8601")` first.
+   */
   public static fromPlainDate(pd: Temporal.PlainDate): CalendarDate {
+    validateIsoCalendar(pd);
     return new CalendarDate(tripletToDaysValue(pd.year, pd.month, pd.day));
   }
 
   /**
-   * Construct a CalendarDate from an ISO 8601 date string "YYYY-MM-DD" or "YYYYMMDD"
+   * Construct a CalendarDate from an ISO 8601 date string "YYYY-MM-DD" or "YYYYMMDD". The year can also be an ISO 8601
+   * expanded year with a sign and six digits, e.g. "-000044-03-15". This is optimized for "YYYY-MM-DD" strings. To
+   * parse week dates, ordinal dates, or single-digit months and days, use parse() from the "parse" module.
+   *
+   * If the string isn't a valid date, this throws a CalendarDateParseError which says which field was invalid and
+   * where.
    * @param str An ISO 8601 date string
    */
   public static fromString(str: string): CalendarDate {
@@ -103,19 +398,24 @@ class CalendarDate {
       // YYYY-MM-DD format, presumably:
       month = extractInt(str, 5);
       day = extractInt(str, 8);
-    } else if (str.length === 8) {
+    } else if (str.length === 8 && str.charAt(4) !== "-") {
       // YYYYMMDD format, presumably.
       month = extractInt(str, 4);
       day = extractInt(str, 6);
     }
-    if (isNaN(year) || isNaN(month) || isNaN(day)) {
-      throw new Error("Date string not in YYYY-MM-DD or YYYYMMDD format");
+    const sign = str.charAt(0);
+    if (
+      isNaN(year) || isNaN(month) || isNaN(day) || sign === "-" || sign === "+"
+    ) {
+      // Not in one of the most common formats (e.g. an expanded year, which has a sign), so use the slower parser:
+      return new CalendarDate(parseDateValue(str));
     }
     return new CalendarDate(tripletToDaysValue(year, month, day));
   }
 
   /**
-   * Get the current date, according to the system's local time
+   * Get the current date, according to the system's local time. For the current date in some other time zone, use
+   * todayInTimeZone() from the "time-zone" module.
    */
   public static today(): CalendarDate {
     const jsDate = new Date();
@@ -128,15 +428,45 @@ class CalendarDate {
     );
   }
 
+  /**
+   * Enable (or disable) the extended range of dates: -271821-01-01 to 275760-12-31, which includes every date that
+   * Temporal supports, rather than just years 1-9999. Years use astronomical year numbering, so year 0 is 1 BCE, year -1
+   * is 2 BCE, and so on. Years outside of 0-9999 are written in ISO 8601 strings as an expanded year with a sign and six
+   * digits, e.g. "-000044-03-15".
+   *
+   * This is a global setting: it applies to every CalendarDate in the process, including those created by other
+   * libraries that use CalendarDate, so only an application (not a library) should call it, once, when it starts. Dates
+   * in years 1-9999 are just as fast with the extended range enabled.
+   *
+   * Calling enableExtendedRange(false) is only meant for tests. It doesn't affect dates that already exist, but any
+   * new date outside of years 1-9999 (e.g. from calling addDays() on one of those) will throw an error again.
+   */
+  public static enableExtendedRange(enabled = true): void {
+    minValue = enabled ? EXTENDED_MIN_VALUE : COMMON_MIN_VALUE;
+    maxValue = enabled ? EXTENDED_MAX_VALUE : COMMON_MAX_VALUE;
+  }
+
+  /** Whether the extended range of dates has been enabled with enableExtendedRange() */
+  public static get isExtendedRangeEnabled(): boolean {
+    return minValue === EXTENDED_MIN_VALUE;
+  }
+
+  /** The value of the earliest supported date: 0001-01-01, or -271821-01-01 if the extended range is enabled */
+  public static get minValue(): number {
+    return minValue;
+  }
+
+  /** The value of the latest supported date: 9999-12-31, or +275760-12-31 if the extended range is enabled */
+  public static get maxValue(): number {
+    return maxValue;
+  }
+
   /**
    * Construct a CalendarDate instance using its internal int representation (# of days since the millenium)
    * @param daysValue how many days since the dawn of the year "0" (1 BCE)
    */
   constructor(daysValue: number) {
-    if (
-      daysValue < 366 || // 366 represents January 1, in the year 1 CE
-      daysValue > 3652424 // 3652424 is Dec. 31, 9999
-    ) {
+    if (daysValue < minValue || daysValue > maxValue) {
       throw new Error(`Date value (${daysValue}) out of range.`);
     } else if (!Number.isInteger(daysValue)) {
       throw new Error(`Non-integer date value.`);
@@ -153,21 +483,12 @@ class CalendarDate {
 
   /** Get the year */
   public get year(): number {
-    const centuries = (this.#value / 36525) | 0;
-    return (this.#value + centuries - (centuries / 4 | 0)) / 365.25 | 0;
+    return yearOfValue(this.#value);
   }
 
   /** Get the month (1-12) */
   public get month(): number {
-    const year = this.year;
-    // Compute the number of days between January 1, year 0 and the first day of the given year:
-    const d = (year * 365) + ((year + 3) / 4 | 0) - ((year + 99) / 100 | 0) +
-      ((year + 399) / 400 | 0);
-    if (CalendarDate.isLeapYear(year)) {
-      return LEAP_YEAR.charCodeAt(this.#value - d) - MONTHS_CHAR_OFFSET;
-    } else {
-      return NORMAL_YEAR.charCodeAt(this.#value - d) - MONTHS_CHAR_OFFSET;
-    }
+    return monthOfValue(this.#value);
   }
 
   /** Get the day of the month (1-31) */
@@ -177,12 +498,16 @@ class CalendarDate {
 
   /** Get the day of the week (0 = Monday, 6 = Sunday) */
   get dayOfWeek(): number {
-    return (this.#value + 5) % 7;
+    const value = this.#value;
+    return value < 0 ? dayOfWeekOfValue(value) : (value + 5) % 7;
   }
 
-  /** Get the day of the year (0-365) */
+  /**
+   * Get the day of the year (0-365). Note that this is 0-based (0 = January 1), unlike ISO 8601 ordinal dates (see
+   * toOrdinalString() in the "ordinal" module), which are 1-based.
+   */
   get dayOfYear(): number {
-    return this.#value - tripletToDaysValue(this.year, 1, 1);
+    return this.#value - yearStartValue(this.year);
   }
 
   /**
@@ -191,7 +516,7 @@ class CalendarDate {
   public toString(): string {
     const month = this.month, day = this.day;
     return (
-      String(this.year).padStart(4, "0") +
+      formatIsoYear(this.year) +
       (month < 10 ? "-0" : "-") + month +
       (day < 10 ? "-0" : "-") + day
     );
@@ -232,7 +557,46 @@ class CalendarDate {
     return (year % 4 === 0) && (year % 100 !== 0 || year % 400 === 0);
   }
 
-  /** Get this calendar date as a regular JavaScript Date object, with UTC timezone. */
+  /**
+   * Helper method: get the nth occurrence of a day of the week in the specified month, e.g. the 4th Thursday of
+   * November. If n is negative, count from the end of the month instead: -1 is the last one, -2 the second last, etc.
+   *
+   * Returns undefined if the month doesn't have that many of that day of the week (e.g. the 5th Friday).
+   *
+   * @param year Year
+   * @param month Month (1-12)
+   * @param dayOfWeek Day of the week (0 = Monday, 6 = Sunday)
+   * @param n Which occurrence (1 to 5, or -1 to -5)
+   */
+  public static nthWeekdayOfMonth(
+    year: number,
+    month: number,
+    dayOfWeek: number,
+    n: number,
+  ): CalendarDate | undefined {
+    validateDayOfWeek(dayOfWeek);
+    if (!Number.isInteger(n) || n === 0 || n < -5 || n > 5) {
+      throw new Error(`Weekday occurrence (${n}) out of range.`);
+    }
+    const daysInMonth = CalendarDate.daysInMonth(year, month);
+    let day;
+    if (n > 0) {
+      const first = tripletToDaysValue(year, month, 1);
+      day = 1 + (dayOfWeek - dayOfWeekOfValue(first) + 7) % 7 + (n - 1) * 7;
+    } else {
+      const last = tripletToDaysValue(year, month, daysInMonth);
+      day = daysInMonth - (dayOfWeekOfValue(last) - dayOfWeek + 7) % 7 +
+        (n + 1) * 7;
+    }
+    return day >= 1 && day <= daysInMonth
+      ? CalendarDate.create(year, month, day)
+      : undefined;
+  }
+
+  /**
+   * Get this calendar date as a regular JavaScript Date object, with UTC timezone. Dates only support -271821-04-20 to
+   * +275760-09-13, so in the extended range, earlier or later dates give an invalid Date.
+   */
   public toDate(): Date {
     return new Date(this.toEpochMs());
   }
@@ -246,6 +610,25 @@ class CalendarDate {
     return (this.#value - 719528) * 86400_000; // 719528 is the unix epoch, CalendarDate.fromString("1970-01-01").value
   }
 
+  /**
+   * Get the number of days since the Unix epoch (Jan 1, 1970), which is negative for earlier dates. This is how many
+   * other systems store dates, e.g. Apache Arrow and Parquet's date32 type, and Avro's date type.
+   */
+  public toEpochDays(): number {
+    return this.#value - 719528;
+  }
+
+  /**
+   * Construct a CalendarDate from a number of days since the Unix epoch (Jan 1, 1970)
+   * @param epochDays Days since 1970-01-01 (negative for earlier dates)
+   */
+  public static fromEpochDays(epochDays: number): CalendarDate {
+    if (epochDays < minValue - 719528 || epochDays > maxValue - 719528) {
+      throw new Error(`Epoch day (${epochDays}) out of range.`);
+    }
+    return new CalendarDate(epochDays + 719528);
+  }
+
   public static fromDate(d: Date): CalendarDate {
     const isoString = d.toISOString();
     if (!isoString.endsWith("00:00:00.000Z")) {
@@ -260,33 +643,192 @@ class CalendarDate {
     );
   }
 
-  public addYears(delta: number): CalendarDate {
-    const newYear = this.year + delta;
-    // Special case handling for February in leap years:
-    if (
-      this.month === 2 && this.day === 29 &&
-      !CalendarDate.isLeapYear(newYear)
-    ) {
-      return CalendarDate.create(newYear, this.month + 1, 1);
-    } else {
-      // Just change the year value - easy
-      return CalendarDate.create(newYear, this.month, this.day);
-    }
+  /**
+   * Add the given number of years to this date.
+   *
+   * By default, Feb. 29 plus one year is Mar. 1 (overflow: "rollover"), but you can choose a different behavior using
+   * the `overflow` option.
+   */
+  public addYears(
+    delta: number,
+    options: AddMonthsOptions = {},
+  ): CalendarDate {
+    return this.#addMonths(delta * 12, getOverflow(options, "rollover"));
   }
 
-  public addMonths(delta: number): CalendarDate {
-    const currentMonths = this.year * 12 + this.month - 1;
-    const newYear = (currentMonths + delta) / 12 | 0;
-    const newMonth = (currentMonths + delta) % 12 + 1;
+  /**
+   * Add the given number of months to this date.
+   *
+   * By default, if the resulting month doesn't have enough days, the result will be the last day of that month
+   * (overflow: "constrain"), e.g. Jan. 31 plus one month is Feb. 28, but you can choose a different behavior using the
+   * `overflow` option.
+   */
+  public addMonths(
+    delta: number,
+    options: AddMonthsOptions = {},
+  ): CalendarDate {
+    return this.#addMonths(delta, getOverflow(options, "constrain"));
+  }
+
+  /** Internal helper for addYears() and addMonths() */
+  #addMonths(delta: number, overflow: MonthOverflow): CalendarDate {
+    const year = this.year, month = this.month, day = this.day;
+    const currentMonths = year * 12 + month - 1;
+    const newYear = Math.floor((currentMonths + delta) / 12);
+    const newMonth = currentMonths + delta - newYear * 12 + 1;
     const maxDay = CalendarDate.daysInMonth(newYear, newMonth);
-    const overflow = Math.max(0, this.day - maxDay); // Handle Dec 31 plus two months becoming Feb 28, not Feb 31
-    return CalendarDate.create(newYear, newMonth, this.day - overflow);
+    let newDay = day;
+    if (
+      overflow === "endOfMonth" &&
+      day === CalendarDate.daysInMonth(year, month)
+    ) {
+      newDay = maxDay;
+    } else if (day > maxDay) {
+      if (overflow === "reject") {
+        throw new Error(
+          `Day out of range (${newYear}-${newMonth} only has ${maxDay} days).`,
+        );
+      } else if (overflow === "rollover") {
+        // e.g. Jan. 31 plus one month becomes "Feb. 31", which rolls over to Mar. 3
+        return new CalendarDate(
+          tripletToDaysValue(newYear, newMonth, maxDay) + day - maxDay,
+        );
+      }
+      newDay = maxDay; // e.g. Dec 31 plus two months becomes Feb 28, not Feb 31
+    }
+    return new CalendarDate(tripletToDaysValue(newYear, newMonth, newDay));
   }
 
   public addDays(delta: number): CalendarDate {
     return new CalendarDate(this.#value + delta);
   }
 
+  /**
+   * Add a duration to this date.
+   *
+   * This works the same way as Temporal.PlainDate.add(): first the years and months are added, as if by addMonths(),
+   * so the day will be clamped to the end of the month if necessary; then the weeks and days are added.
+   * e.g. Jan. 31 plus `{ months: 1, days: 1 }` is Mar. 1 (Feb. 28 plus one day), not Mar. 4.
+   *
+   * Note that unlike addYears(), adding `{ years: 1 }` to Feb. 29 gives Feb. 28, not Mar. 1. You can change how the
+   * end of the month is handled using the `overflow` option (see addMonths()).
+   */
+  public add(
+    duration: CalendarDurationLike,
+    options: AddMonthsOptions = {},
+  ): CalendarDate {
+    return this.#addMonthsAndDays(
+      (duration.years ?? 0) * 12 + (duration.months ?? 0),
+      (duration.weeks ?? 0) * 7 + (duration.days ?? 0),
+      getOverflow(options, "constrain"),
+    );
+  }
+
+  /**
+   * Subtract a duration from this date. This is the same as adding the negated duration, so the years and months are
+   * subtracted first, then the weeks and days.
+   */
+  public subtract(
+    duration: CalendarDurationLike,
+    options: AddMonthsOptions = {},
+  ): CalendarDate {
+    return this.#addMonthsAndDays(
+      -((duration.years ?? 0) * 12 + (duration.months ?? 0)),
+      -((duration.weeks ?? 0) * 7 + (duration.days ?? 0)),
+      getOverflow(options, "constrain"),
+    );
+  }
+
+  /** Internal helper for add() and subtract() */
+  #addMonthsAndDays(
+    months: number,
+    days: number,
+    overflow: MonthOverflow,
+  ): CalendarDate {
+    return (months === 0 ? this : this.#addMonths(months, overflow)).addDays(
+      days,
+    );
+  }
+
+  // Relative date helpers:
+
+  /** Get the first day of this date's month */
+  public startOfMonth(): CalendarDate {
+    return this.addDays(1 - this.day);
+  }
+
+  /** Get the last day of this date's month */
+  public endOfMonth(): CalendarDate {
+    const daysInMonth = CalendarDate.daysInMonth(this.year, this.month);
+    return this.addDays(daysInMonth - this.day);
+  }
+
+  /** Get the first day of this date's quarter (Jan. 1, Apr. 1, Jul. 1, or Oct. 1) */
+  public startOfQuarter(): CalendarDate {
+    const year = this.year;
+    const month = this.month - (this.month - 1) % 3;
+    return new CalendarDate(tripletToDaysValue(year, month, 1));
+  }
+
+  /** Get the last day of this date's quarter (Mar. 31, Jun. 30, Sep. 30, or Dec. 31) */
+  public endOfQuarter(): CalendarDate {
+    const year = this.year;
+    const month = this.month + 2 - (this.month - 1) % 3;
+    return new CalendarDate(
+      tripletToDaysValue(year, month, optimizedDaysInMonth(month)),
+    );
+  }
+
+  /** Get the first day of this date's year (Jan. 1) */
+  public startOfYear(): CalendarDate {
+    return new CalendarDate(yearStartValue(this.year));
+  }
+
+  /** Get the last day of this date's year (Dec. 31) */
+  public endOfYear(): CalendarDate {
+    return new CalendarDate(tripletToDaysValue(this.year, 12, 31));
+  }
+
+  /**
+   * Get the first day of this date's week. Weeks start on Monday unless you specify a different `weekStartsOn` day
+   * (0 = Monday, 6 = Sunday).
+   */
+  public startOfWeek(options: WeekOptions = {}): CalendarDate {
+    const weekStartsOn = options.weekStartsOn ?? 0;
+    validateDayOfWeek(weekStartsOn);
+    return this.addDays(-((this.dayOfWeek - weekStartsOn + 7) % 7));
+  }
+
+  /**
+   * Get the last day of this date's week. Weeks start on Monday (and end on Sunday) unless you specify a different
+   * `weekStartsOn` day (0 = Monday, 6 = Sunday).
+   */
+  public endOfWeek(options: WeekOptions = {}): CalendarDate {
+    return this.startOfWeek(options).addDays(6);
+  }
+
+  /**
+   * Get the next date after this one that falls on the given day of the week (0 = Monday, 6 = Sunday). This is always
+   * 1-7 days later, e.g. the next Monday after a Monday is one week later.
+   */
+  public nextWeekday(dayOfWeek: number): CalendarDate {
+    validateDayOfWeek(dayOfWeek);
+    return this.addDays((dayOfWeek - this.dayOfWeek + 6) % 7 + 1);
+  }
+
+  /**
+   * Get the last date before this one that falls on the given day of the week (0 = Monday, 6 = Sunday). This is always
+   * 1-7 days earlier, e.g. the previous Monday before a Monday is one week earlier.
+   */
+  public previousWeekday(dayOfWeek: number): CalendarDate {
+    validateDayOfWeek(dayOfWeek);
+    return this.addDays(-((this.dayOfWeek - dayOfWeek + 6) % 7 + 1));
+  }
+
+  /**
+   * Format this date using the given Intl.DateTimeFormat, which must use the UTC time zone. Like toDate(), this only
+   * works for dates from -271821-04-20 to +275760-09-13; earlier or later dates throw a RangeError.
+   */
   public format(formatter: Intl.DateTimeFormat): string {
     if (formatter.resolvedOptions().timeZone !== "UTC") {
       throw new Error("DateTimeFormat must use UTC timezone.");
@@ -318,6 +860,69 @@ class CalendarDate {
     return (this.year - earlierDate.year) - (needOffset ? 0 : 1);
   }
 
+  /**
+   * Calculate how many full months have been between the given date and this date.
+   * Months are counted the same way that addMonths() counts them, so e.g. from Jan. 31 to Feb. 28 is one full month.
+   */
+  public fullMonthsSince(earlierDate: CalendarDate): number {
+    const year = this.year, month = this.month, day = this.day;
+    const months = (year - earlierDate.year) * 12 + month - earlierDate.month;
+    // The day of the month that earlierDate.addMonths(months) would land on:
+    const targetDay = Math.min(
+      earlierDate.day,
+      CalendarDate.daysInMonth(year, month),
+    );
+    if (months > 0 && day < targetDay) {
+      return months - 1;
+    } else if (months < 0 && day > targetDay) {
+      return months + 1;
+    }
+    return months;
+  }
+
+  /**
+   * Calculate how many full weeks have been between the given date and this date.
+   */
+  public fullWeeksSince(earlierDate: CalendarDate): number {
+    return (this.#value - earlierDate.#value) / 7 | 0;
+  }
+
+  /**
+   * Calculate how many days have been between the given date and this date.
+   * This will be negative if the given date is after this date.
+   */
+  public daysSince(otherDate: CalendarDate): number {
+    return this.#value - otherDate.#value;
+  }
+
+  /**
+   * Calculate the difference between this date and the given date, as a number of years, months, and days.
+   * The result is consistent with how addMonths() handles the end of the month, so that
+   * `this.addMonths(years * 12 + months).addDays(days)` always gives `otherDate`. If the other date is earlier than
+   * this date, all of the values will be negative (or zero).
+   */
+  public until(
+    otherDate: CalendarDate,
+  ): { years: number; months: number; days: number } {
+    const totalMonths = otherDate.fullMonthsSince(this);
+    const years = totalMonths / 12 | 0;
+    return {
+      years,
+      months: totalMonths - years * 12,
+      days: otherDate.#value - this.addMonths(totalMonths).#value,
+    };
+  }
+
+  /** Get the year and month of this date */
+  public toYearMonth(): CalendarYearMonth {
+    return CalendarYearMonth.create(this.year, this.month);
+  }
+
+  /** Get the month and day of this date, e.g. for an anniversary */
+  public toMonthDay(): CalendarMonthDay {
+    return CalendarMonthDay.create(this.month, this.day);
+  }
+
   // Pretty print in Deno
   [Symbol.for("Deno.customInspect")](): string {
     return `CalendarDate {${this.toString()}}`;
@@ -338,4 +943,19 @@ const D = (
   return CalendarDate.fromString(String.raw(strings, ...keys));
 };
 
-export { CalendarDate, D };
+export {
+  type AddMonthsOptions,
+  CalendarDate,
+  type CalendarDateField,
+  CalendarDateParseError,
+  type CalendarDurationLike,
+  D,
+  type DateTriplet,
+  dayOfWeekOfValue,
+  formatIsoYear,
+  type MonthOverflow,
+  parseIsoYear,
+  type WeekOptions,
+  yearOfValue,
+  yearStartValue,
+};
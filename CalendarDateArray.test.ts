@@ -0,0 +1,128 @@
+import { CalendarDate, D } from "./CalendarDate.ts";
+import { CalendarDateArray } from "./CalendarDateArray.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("CalendarDateArray construction", async (t) => {
+  await t.step("from()", () => {
+    const dates = CalendarDateArray.from([D`2024-02-29`, D`1999-12-31`]);
+    assertEquals(dates.length, 2);
+    assertEquals(dates.get(0).toString(), "2024-02-29");
+    assertEquals(dates.get(1).toString(), "1999-12-31");
+    assertEquals(
+      dates.values,
+      new Int32Array([D`2024-02-29`.value, D`1999-12-31`.value]),
+    );
+  });
+
+  await t.step("fromStrings() and toStrings()", () => {
+    const strings = [
+      "2024-02-29",
+      "0001-01-01",
+      "9999-12-31",
+      "0999-10-05",
+      "2023-01-31",
+    ];
+    const dates = CalendarDateArray.fromStrings(strings);
+    assertEquals(dates.toStrings(), strings);
+    assertEquals(JSON.stringify(dates), JSON.stringify(strings));
+    // Other formats are parsed by CalendarDate.fromString():
+    assertEquals(
+      CalendarDateArray.fromStrings(["20240229", "+002024-02-29"]).toStrings(),
+      ["2024-02-29", "2024-02-29"],
+    );
+    assertThrows(() => CalendarDateArray.fromStrings(["2023-02-29"]), Error);
+    assertThrows(() => CalendarDateArray.fromStrings(["2023-1-5"]), Error);
+  });
+
+  await t.step("constructor", () => {
+    const values = new Int32Array([D`2024-01-01`.value]);
+    const dates = new CalendarDateArray(values);
+    values[0]++; // The typed array isn't copied
+    assertEquals(dates.get(0).toString(), "2024-01-02");
+    assertEquals(new CalendarDateArray(3).toStrings(), [
+      "0001-01-01",
+      "0001-01-01",
+      "0001-01-01",
+    ]);
+    assertThrows(
+      () => new CalendarDateArray(new Int32Array([0])),
+      Error,
+      "Date value (0) out of range.",
+    );
+  });
+
+  await t.step("get() and set()", () => {
+    const dates = new CalendarDateArray(2);
+    dates.set(1, D`2024-08-15`);
+    assertEquals([...dates].map(String), ["0001-01-01", "2024-08-15"]);
+    assertThrows(() => dates.get(2), RangeError, "Index (2) out of range.");
+    assertThrows(
+      () => dates.set(-1, D`2024-08-15`),
+      RangeError,
+      "Index (-1) out of range.",
+    );
+  });
+
+  await t.step("only supports years 1-9999", () => {
+    CalendarDate.enableExtendedRange();
+    try {
+      const dates = new CalendarDateArray(1);
+      assertThrows(
+        () => dates.set(0, D`0001-01-01`.addDays(-1)),
+        Error,
+        "Date value (365) out of range.",
+      );
+      assertThrows(
+        () => CalendarDateArray.fromStrings(["+010000-01-01"]),
+        Error,
+        "out of range",
+      );
+    } finally {
+      CalendarDate.enableExtendedRange(false);
+    }
+  });
+});
+
+Deno.test("CalendarDateArray sorting and searching", () => {
+  const dates = CalendarDateArray.fromStrings([
+    "2024-03-01",
+    "2023-12-31",
+    "2024-01-15",
+    "2024-01-15",
+  ]);
+  assertEquals(dates.min()?.toString(), "2023-12-31");
+  assertEquals(dates.max()?.toString(), "2024-03-01");
+  assertEquals(dates.sort().toStrings(), [
+    "2023-12-31",
+    "2024-01-15",
+    "2024-01-15",
+    "2024-03-01",
+  ]);
+  assertEquals(dates.binarySearch(D`2024-01-15`), 1);
+  assertEquals(dates.binarySearch(D`2024-01-16`), 3);
+  assertEquals(dates.binarySearch(D`2000-01-01`), 0);
+  assertEquals(dates.binarySearch(D`2025-01-01`), 4);
+  assertEquals(new CalendarDateArray(0).min(), undefined);
+  assertEquals(new CalendarDateArray(0).max(), undefined);
+});
+
+Deno.test("CalendarDateArray fields match CalendarDate", () => {
+  // Every 13th day for a few centuries, including the ends of the supported range:
+  const list: CalendarDate[] = [D`0001-01-01`, D`9999-12-31`];
+  for (let date = D`1599-01-01`; date.year < 2401; date = date.addDays(13)) {
+    list.push(date);
+  }
+  const dates = CalendarDateArray.from(list);
+  assertEquals(Array.from(dates.years()), list.map((date) => date.year));
+  assertEquals(Array.from(dates.months()), list.map((date) => date.month));
+  assertEquals(Array.from(dates.days()), list.map((date) => date.day));
+  assertEquals(
+    Array.from(dates.daysOfWeek()),
+    list.map((date) => date.dayOfWeek),
+  );
+  assertEquals(dates.toStrings(), list.map((date) => date.toString()));
+  assertEquals(
+    CalendarDateArray.fromStrings(dates.toStrings()).values,
+    dates.values,
+  );
+});
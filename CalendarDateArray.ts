@@ -0,0 +1,288 @@
+import { CalendarDate, yearOfValue, yearStartValue } from "./CalendarDate.ts";
+
+// Lookup tables from the day of the year (0 for Jan. 1) to the month (1-12), and from the month to the day of the year
+// that it starts on. These work the same way as the NORMAL_YEAR and LEAP_YEAR strings used by CalendarDate's month
+// getter, but as typed arrays, so that extracting the month from a whole column of dates is one lookup per date.
+const NORMAL_YEAR_MONTHS = new Uint8Array(365);
+const LEAP_YEAR_MONTHS = new Uint8Array(366);
+const NORMAL_YEAR_MONTH_STARTS = new Uint16Array(13);
+const LEAP_YEAR_MONTH_STARTS = new Uint16Array(13);
+for (let month = 1; month <= 12; month++) {
+  for (
+    const [months, monthStarts, year] of [
+      [NORMAL_YEAR_MONTHS, NORMAL_YEAR_MONTH_STARTS, 2001],
+      [LEAP_YEAR_MONTHS, LEAP_YEAR_MONTH_STARTS, 2000],
+    ] as const
+  ) {
+    const start = month === 1
+      ? 0
+      : monthStarts[month - 1] + CalendarDate.daysInMonth(year, month - 1);
+    monthStarts[month] = start;
+    months.fill(month, start, start + CalendarDate.daysInMonth(year, month));
+  }
+}
+
+/** "00" to "31", for formatting months and days */
+const TWO_DIGITS = Array.from(
+  { length: 32 },
+  (_, i) => String(i).padStart(2, "0"),
+);
+
+/**
+ * The smallest and largest values that a CalendarDateArray can have (0001-01-01 and 9999-12-31), even if
+ * CalendarDate's extended range is enabled
+ */
+const MIN_VALUE = 366;
+const MAX_VALUE = 3652424;
+
+/** Get the value of a date in "YYYY-MM-DD" format, or NaN if it's not in that format or isn't a valid date */
+const parseSimpleDate = (str: string): number => {
+  if (
+    str.length !== 10 || str.charCodeAt(4) !== 45 || str.charCodeAt(7) !== 45 // "-"
+  ) {
+    return NaN;
+  }
+  let year = 0, month = 0, day = 0;
+  for (let i = 0; i < 10; i++) {
+    if (i === 4 || i === 7) continue;
+    const digit = str.charCodeAt(i) - 48; // "0"
+    if (digit < 0 || digit > 9) {
+      return NaN;
+    } else if (i < 4) {
+      year = year * 10 + digit;
+    } else if (i < 7) {
+      month = month * 10 + digit;
+    } else {
+      day = day * 10 + digit;
+    }
+  }
+  if (
+    year < 1 || month < 1 || month > 12 || day < 1 ||
+    day > CalendarDate.daysInMonth(year, month)
+  ) {
+    return NaN;
+  }
+  const monthStarts = CalendarDate.isLeapYear(year)
+    ? LEAP_YEAR_MONTH_STARTS
+    : NORMAL_YEAR_MONTH_STARTS;
+  return yearStartValue(year) + monthStarts[month] + day - 1;
+};
+
+/**
+ * A compact, fixed-length array of calendar dates, stored as the dates' internal values in an Int32Array (4 bytes per
+ * date). Use this instead of an array of CalendarDate objects to hold millions of dates, e.g. a column of data.
+ *
+ * Like a typed array, the length is fixed but the dates can be changed with set() and sort(). Operations on the whole
+ * array (parsing, formatting, and extracting the year, month, etc. of every date) don't create a CalendarDate object
+ * for each date.
+ */
+class CalendarDateArray implements Iterable<CalendarDate> {
+  /** The internal values of the dates */
+  readonly #values: Int32Array;
+
+  /** Construct a CalendarDateArray from any list of dates */
+  public static from(dates: Iterable<CalendarDate>): CalendarDateArray {
+    return new CalendarDateArray(
+      Int32Array.from(dates, (date) => date.value),
+    );
+  }
+
+  /**
+   * Parse a list of ISO 8601 date strings. "YYYY-MM-DD" strings are parsed quickly; any other format is parsed with
+   * CalendarDate.fromString().
+   */
+  public static fromStrings(strings: ArrayLike<string>): CalendarDateArray {
+    const values = new Int32Array(strings.length);
+    for (let i = 0; i < strings.length; i++) {
+      const str = strings[i];
+      const value = parseSimpleDate(str);
+      values[i] = isNaN(value) ? CalendarDate.fromString(str).value : value;
+    }
+    return new CalendarDateArray(values);
+  }
+
+  /**
+   * Construct a CalendarDateArray from an Int32Array of internal date values (see CalendarDate.value). The typed array
+   * is used as-is, not copied, so changes to one affect the other.
+   * @param values The internal values of the dates, or the number of dates (which will all be 0001-01-01)
+   */
+  constructor(values: Int32Array | number) {
+    if (typeof values === "number") {
+      values = new Int32Array(values).fill(MIN_VALUE);
+    }
+    for (let i = 0; i < values.length; i++) {
+      if (values[i] < MIN_VALUE || values[i] > MAX_VALUE) {
+        throw new Error(`Date value (${values[i]}) out of range.`);
+      }
+    }
+    this.#values = values;
+  }
+
+  /** Get the number of dates */
+  public get length(): number {
+    return this.#values.length;
+  }
+
+  /** Get the underlying Int32Array of internal date values. Don't set any values that aren't valid dates. */
+  public get values(): Int32Array {
+    return this.#values;
+  }
+
+  /** Get the date at the given index */
+  public get(index: number): CalendarDate {
+    if (!(index >= 0 && index < this.#values.length)) {
+      throw new RangeError(`Index (${index}) out of range.`);
+    }
+    return new CalendarDate(this.#values[index]);
+  }
+
+  /** Set the date at the given index */
+  public set(index: number, date: CalendarDate): void {
+    if (!(index >= 0 && index < this.#values.length)) {
+      throw new RangeError(`Index (${index}) out of range.`);
+    }
+    const value = date.value;
+    if (value < MIN_VALUE || value > MAX_VALUE) {
+      throw new Error(`Date value (${value}) out of range.`);
+    }
+    this.#values[index] = value;
+  }
+
+  /** Sort the dates in place, from earliest to latest */
+  public sort(): this {
+    this.#values.sort();
+    return this;
+  }
+
+  /**
+   * Find where the given date is (or would be inserted) in this array, which must be sorted: the index of the first
+   * date that is on or after the given date, or the length of the array if all of the dates are earlier.
+   */
+  public binarySearch(date: CalendarDate): number {
+    const values = this.#values, value = date.value;
+    let low = 0, high = values.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[mid] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  /** Get the earliest date, or undefined if the array is empty */
+  public min(): CalendarDate | undefined {
+    const values = this.#values;
+    if (values.length === 0) return undefined;
+    let min = values[0];
+    for (let i = 1; i < values.length; i++) {
+      if (values[i] < min) min = values[i];
+    }
+    return new CalendarDate(min);
+  }
+
+  /** Get the latest date, or undefined if the array is empty */
+  public max(): CalendarDate | undefined {
+    const values = this.#values;
+    if (values.length === 0) return undefined;
+    let max = values[0];
+    for (let i = 1; i < values.length; i++) {
+      if (values[i] > max) max = values[i];
+    }
+    return new CalendarDate(max);
+  }
+
+  /** Get the year of every date */
+  public years(): Int16Array {
+    const values = this.#values;
+    const years = new Int16Array(values.length);
+    for (let i = 0; i < values.length; i++) {
+      years[i] = yearOfValue(values[i]);
+    }
+    return years;
+  }
+
+  /** Get the month (1-12) of every date */
+  public months(): Uint8Array {
+    const values = this.#values;
+    const months = new Uint8Array(values.length);
+    for (let i = 0; i < values.length; i++) {
+      const year = yearOfValue(values[i]);
+      const dayOfYear = values[i] - yearStartValue(year);
+      months[i] = CalendarDate.isLeapYear(year)
+        ? LEAP_YEAR_MONTHS[dayOfYear]
+        : NORMAL_YEAR_MONTHS[dayOfYear];
+    }
+    return months;
+  }
+
+  /** Get the day of the month (1-31) of every date */
+  public days(): Uint8Array {
+    const values = this.#values;
+    const days = new Uint8Array(values.length);
+    for (let i = 0; i < values.length; i++) {
+      const year = yearOfValue(values[i]);
+      const dayOfYear = values[i] - yearStartValue(year);
+      const isLeapYear = CalendarDate.isLeapYear(year);
+      const months = isLeapYear ? LEAP_YEAR_MONTHS : NORMAL_YEAR_MONTHS;
+      const monthStarts = isLeapYear
+        ? LEAP_YEAR_MONTH_STARTS
+        : NORMAL_YEAR_MONTH_STARTS;
+      days[i] = dayOfYear - monthStarts[months[dayOfYear]] + 1;
+    }
+    return days;
+  }
+
+  /** Get the day of the week (0 = Monday, 6 = Sunday) of every date */
+  public daysOfWeek(): Uint8Array {
+    const values = this.#values;
+    const daysOfWeek = new Uint8Array(values.length);
+    for (let i = 0; i < values.length; i++) {
+      daysOfWeek[i] = (values[i] + 5) % 7;
+    }
+    return daysOfWeek;
+  }
+
+  /** Get every date as an ISO 8601 string (e.g. "2015-01-25") */
+  public toStrings(): string[] {
+    const values = this.#values;
+    const strings = new Array<string>(values.length);
+    for (let i = 0; i < values.length; i++) {
+      const year = yearOfValue(values[i]);
+      const dayOfYear = values[i] - yearStartValue(year);
+      const isLeapYear = CalendarDate.isLeapYear(year);
+      const months = isLeapYear ? LEAP_YEAR_MONTHS : NORMAL_YEAR_MONTHS;
+      const monthStarts = isLeapYear
+        ? LEAP_YEAR_MONTH_STARTS
+        : NORMAL_YEAR_MONTH_STARTS;
+      const month = months[dayOfYear];
+      const day = dayOfYear - monthStarts[month] + 1;
+      strings[i] = (year < 1000 ? String(year).padStart(4, "0") : year) + "-" +
+        TWO_DIGITS[month] + "-" + TWO_DIGITS[day];
+    }
+    return strings;
+  }
+
+  /** Iterate over the dates */
+  public *[Symbol.iterator](): IterableIterator<CalendarDate> {
+    for (const value of this.#values) {
+      yield new CalendarDate(value);
+    }
+  }
+
+  /**
+   * JSON serialization - as an array of ISO 8601 strings
+   */
+  public toJSON(): string[] {
+    return this.toStrings();
+  }
+
+  // Pretty print in Deno
+  [Symbol.for("Deno.customInspect")](): string {
+    return `CalendarDateArray {${this.#values.length} dates}`;
+  }
+}
+
+export { CalendarDateArray };
@@ -0,0 +1,179 @@
+import { CalendarDate, D } from "./CalendarDate.ts";
+import {
+  cborTagDecoders,
+  createMsgpackExtension,
+  decodeCbor,
+  encodeCbor,
+  packDate,
+  unpackDate,
+} from "./CalendarDateCodecs.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+/** Format bytes as hex, e.g. "d86419" */
+const hex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/** Parse hex bytes */
+const fromHex = (str: string) =>
+  new Uint8Array(str.match(/../g)!.map((byte) => parseInt(byte, 16)));
+
+Deno.test("3-byte packed dates", () => {
+  assertEquals(hex(packDate(D`0001-01-01`)), "00016e");
+  assertEquals(hex(packDate(D`9999-12-31`)), "37bb48");
+  const dates = [D`2024-02-29`, D`1999-12-31`, D`0001-01-01`, D`9999-12-31`];
+  const bytes = new Uint8Array(dates.length * 3);
+  dates.forEach((date, i) => packDate(date, bytes, i * 3));
+  assertEquals(
+    dates.map((_, i) => unpackDate(bytes, i * 3).toString()),
+    dates.map(String),
+  );
+  // Packed dates sort bytewise in date order:
+  assertEquals(
+    hex(packDate(D`2023-12-31`)) < hex(packDate(D`2024-01-01`)),
+    true,
+  );
+  assertThrows(() => packDate(D`2024-01-01`, bytes, 10), RangeError);
+  assertThrows(
+    () => unpackDate(new Uint8Array(2)),
+    RangeError,
+    "Offset (0) out of range.",
+  );
+  assertThrows(() => unpackDate(new Uint8Array(3)), Error, "out of range");
+});
+
+Deno.test("3-byte packed dates in the extended range", () => {
+  CalendarDate.enableExtendedRange();
+  try {
+    for (const date of [D`0000-01-01`, D`+045934-06-16`]) {
+      assertEquals(unpackDate(packDate(date)).toString(), date.toString());
+    }
+    assertThrows(
+      () => packDate(D`-000044-03-15`),
+      RangeError,
+      "Date (-000044-03-15) out of range for a packed date.",
+    );
+    assertThrows(
+      () => packDate(D`+045934-06-17`),
+      RangeError,
+      "Date (+045934-06-17) out of range for a packed date.",
+    );
+  } finally {
+    CalendarDate.enableExtendedRange(false);
+  }
+});
+
+Deno.test("CBOR", async (t) => {
+  await t.step("examples from RFC 8943", () => {
+    assertEquals(hex(encodeCbor(D`1940-10-09`)), "d8643929b3");
+    assertEquals(hex(encodeCbor(D`1980-12-08`)), "d864190f9a");
+    assertEquals(
+      hex(encodeCbor(D`1940-10-09`, 1004)),
+      "d903ec6a313934302d31302d3039",
+    );
+    assertEquals(
+      hex(encodeCbor(D`1980-12-08`, 1004)),
+      "d903ec6a313938302d31322d3038",
+    );
+    for (
+      const bytes of [
+        "d8643929b3",
+        "d903ec6a313934302d31302d3039",
+      ]
+    ) {
+      assertEquals(decodeCbor(fromHex(bytes)).toString(), "1940-10-09");
+    }
+  });
+
+  await t.step("round trip", () => {
+    for (
+      const date of [
+        D`1970-01-01`,
+        D`1970-01-24`,
+        D`1970-01-25`,
+        D`1969-12-31`,
+        D`0001-01-01`,
+        D`9999-12-31`,
+      ]
+    ) {
+      for (const tag of [100, 1004] as const) {
+        assertEquals(
+          decodeCbor(encodeCbor(date, tag)).toString(),
+          date.toString(),
+        );
+      }
+    }
+    // Decoding from an offset, and with a longer encoding of the integer than necessary:
+    assertEquals(
+      decodeCbor(fromHex("ffd8641a00000000"), 1).toString(),
+      "1970-01-01",
+    );
+  });
+
+  await t.step("tag decoders", () => {
+    assertEquals(cborTagDecoders[100](19782).toString(), "2024-02-29");
+    assertEquals(cborTagDecoders[100](-1n).toString(), "1969-12-31");
+    assertEquals(cborTagDecoders[1004]("2024-02-29").toString(), "2024-02-29");
+    assertThrows(
+      () => cborTagDecoders[100]("2024-02-29"),
+      Error,
+      "Invalid content for CBOR tag 100: expected an integer.",
+    );
+    assertThrows(
+      () => cborTagDecoders[1004](19782),
+      Error,
+      "Invalid content for CBOR tag 1004: expected a text string.",
+    );
+  });
+
+  await t.step("errors", () => {
+    assertThrows(
+      () => decodeCbor(fromHex("c11a514b67b0")), // Tag 1 is a date and time
+      Error,
+      "Expected a CBOR data item with tag 100 or 1004.",
+    );
+    assertThrows(
+      () => decodeCbor(fromHex("d8646a313934302d31302d3039")),
+      Error,
+      "Invalid content for CBOR tag 100: expected an integer.",
+    );
+    assertThrows(
+      () => decodeCbor(fromHex("d903ec6a3139")),
+      Error,
+      "Unexpected end of CBOR data.",
+    );
+    assertThrows(
+      () => decodeCbor(fromHex("d8641a7fffffff")),
+      Error,
+      "Epoch day (2147483647) out of range.",
+    );
+  });
+});
+
+Deno.test("MessagePack extension type", () => {
+  const extension = createMsgpackExtension(5);
+  assertEquals(extension.type, 5);
+  assertEquals(hex(extension.encode(D`1970-01-02`)!), "00000001");
+  assertEquals(hex(extension.encode(D`1969-12-31`)!), "ffffffff");
+  assertEquals(extension.encode("1970-01-02"), null);
+  for (const date of [D`2024-02-29`, D`0001-01-01`, D`9999-12-31`]) {
+    assertEquals(
+      extension.decode(extension.encode(date)!).toString(),
+      date.toString(),
+    );
+  }
+  // The data may be a view into a larger buffer:
+  assertEquals(
+    extension.decode(fromHex("d60500004d46").subarray(2)).toString(),
+    "2024-02-29",
+  );
+  assertThrows(
+    () => extension.decode(new Uint8Array(3)),
+    Error,
+    "Invalid data length for a MessagePack date (3).",
+  );
+  assertThrows(
+    () => createMsgpackExtension(128),
+    Error,
+    "Invalid MessagePack extension type (128).",
+  );
+});
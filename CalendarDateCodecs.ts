@@ -0,0 +1,245 @@
+import { CalendarDate } from "./CalendarDate.ts";
+
+/** The number of bytes used by packDate() */
+const PACKED_DATE_LENGTH = 3;
+
+/** The CBOR tag for a date as a number of days since 1970-01-01 (RFC 8943) */
+const CBOR_TAG_EPOCH_DAYS = 100;
+/** The CBOR tag for a date as an RFC 3339 "full-date" string, e.g. "2015-01-25" (RFC 8943) */
+const CBOR_TAG_FULL_DATE = 1004;
+
+/**
+ * Encode a date in 3 bytes: its value (days since January 1, 1 BCE; see CalendarDate.value) as a big-endian unsigned
+ * integer. Packed dates sort bytewise in the same order as the dates themselves, so they can be used as keys.
+ *
+ * Dates from 0000-01-01 to +045934-06-16 fit in 3 bytes, which includes all of years 1-9999; if the extended range is
+ * enabled (see CalendarDate.enableExtendedRange()), earlier or later dates throw a RangeError.
+ * @param date The date to encode
+ * @param target An array to write the bytes into (a new one is created by default)
+ * @param offset Where in the target array to write the bytes
+ * @returns The target array
+ */
+function packDate(
+  date: CalendarDate,
+  target: Uint8Array = new Uint8Array(PACKED_DATE_LENGTH),
+  offset = 0,
+): Uint8Array {
+  if (!(offset >= 0 && offset + PACKED_DATE_LENGTH <= target.length)) {
+    throw new RangeError(`Offset (${offset}) out of range.`);
+  }
+  const value = date.value;
+  if (value < 0 || value > 0xffffff) {
+    throw new RangeError(`Date (${date}) out of range for a packed date.`);
+  }
+  target[offset] = value >> 16;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = value & 0xff;
+  return target;
+}
+
+/**
+ * Decode a date that was encoded with packDate()
+ * @param bytes The bytes to read from
+ * @param offset Where in the array the packed date starts
+ */
+function unpackDate(bytes: Uint8Array, offset = 0): CalendarDate {
+  if (!(offset >= 0 && offset + PACKED_DATE_LENGTH <= bytes.length)) {
+    throw new RangeError(`Offset (${offset}) out of range.`);
+  }
+  return new CalendarDate(
+    (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2],
+  );
+}
+
+/** Encode the head of a CBOR data item: the major type (0-7) and its argument */
+const cborHead = (majorType: number, argument: number): number[] => {
+  const type = majorType << 5;
+  if (argument < 24) {
+    return [type | argument];
+  } else if (argument < 0x100) {
+    return [type | 24, argument];
+  } else if (argument < 0x10000) {
+    return [type | 25, argument >> 8, argument & 0xff];
+  }
+  return [
+    type | 26,
+    argument >>> 24,
+    (argument >> 16) & 0xff,
+    (argument >> 8) & 0xff,
+    argument & 0xff,
+  ];
+};
+
+/**
+ * Encode a date as a tagged CBOR data item (RFC 8949), using one of the tags defined for dates by RFC 8943.
+ * @param date The date to encode
+ * @param tag Either 100 (CBOR_TAG_EPOCH_DAYS, the default and more compact) to encode the number of days since
+ *            1970-01-01, or 1004 (CBOR_TAG_FULL_DATE) to encode an ISO 8601 string like "2015-01-25"
+ */
+function encodeCbor(
+  date: CalendarDate,
+  tag: typeof CBOR_TAG_EPOCH_DAYS | typeof CBOR_TAG_FULL_DATE =
+    CBOR_TAG_EPOCH_DAYS,
+): Uint8Array {
+  if (tag === CBOR_TAG_EPOCH_DAYS) {
+    const days = date.toEpochDays();
+    return new Uint8Array([
+      ...cborHead(6, tag),
+      // Major type 0 is an unsigned integer, and 1 is a negative integer (-1 - argument)
+      ...(days >= 0 ? cborHead(0, days) : cborHead(1, -1 - days)),
+    ]);
+  } else if (tag === CBOR_TAG_FULL_DATE) {
+    const str = date.toString();
+    return new Uint8Array([
+      ...cborHead(6, tag),
+      ...cborHead(3, str.length),
+      ...Array.from(str, (char) => char.charCodeAt(0)),
+    ]);
+  }
+  throw new Error(`Unsupported CBOR tag (${tag}).`);
+}
+
+/**
+ * Decode a date that was encoded as a tagged CBOR data item, using either of the tags defined for dates by RFC 8943
+ * (100 or 1004). Use this with CBOR libraries that pass the raw bytes of unknown tags to a callback, or to decode a
+ * date that was encoded with encodeCbor().
+ * @param bytes The bytes to read from
+ * @param offset Where in the array the data item starts
+ */
+function decodeCbor(bytes: Uint8Array, offset = 0): CalendarDate {
+  let position = offset;
+  /** Read the head of a data item, returning the major type and the argument */
+  const readHead = (): [majorType: number, argument: number] => {
+    if (position >= bytes.length) {
+      throw new Error("Unexpected end of CBOR data.");
+    }
+    const initialByte = bytes[position++];
+    const majorType = initialByte >> 5, info = initialByte & 31;
+    if (info < 24) {
+      return [majorType, info];
+    } else if (info > 27) {
+      throw new Error("Invalid CBOR data item.");
+    }
+    const length = 1 << (info - 24); // 1, 2, 4, or 8 bytes
+    if (position + length > bytes.length) {
+      throw new Error("Unexpected end of CBOR data.");
+    }
+    let argument = 0;
+    for (let i = 0; i < length; i++) {
+      argument = argument * 256 + bytes[position++];
+    }
+    return [majorType, argument];
+  };
+
+  const [majorType, tag] = readHead();
+  if (
+    majorType !== 6 ||
+    (tag !== CBOR_TAG_EPOCH_DAYS && tag !== CBOR_TAG_FULL_DATE)
+  ) {
+    throw new Error("Expected a CBOR data item with tag 100 or 1004.");
+  }
+  const [contentType, argument] = readHead();
+  if (tag === CBOR_TAG_EPOCH_DAYS && (contentType === 0 || contentType === 1)) {
+    return CalendarDate.fromEpochDays(
+      contentType === 0 ? argument : -1 - argument,
+    );
+  } else if (tag === CBOR_TAG_FULL_DATE && contentType === 3) {
+    if (position + argument > bytes.length) {
+      throw new Error("Unexpected end of CBOR data.");
+    }
+    return CalendarDate.fromString(
+      new TextDecoder().decode(bytes.subarray(position, position + argument)),
+    );
+  }
+  throw new Error(
+    `Invalid content for CBOR tag ${tag}: expected ${
+      tag === CBOR_TAG_EPOCH_DAYS ? "an integer" : "a text string"
+    }.`,
+  );
+}
+
+/**
+ * Functions to convert the content of the RFC 8943 date tags to a CalendarDate, keyed by tag number. This is the
+ * form that many CBOR libraries accept for decoding custom tags, e.g. `decode(bytes, { tags: cborTagDecoders })`.
+ */
+const cborTagDecoders: Readonly<
+  Record<number, (content: unknown) => CalendarDate>
+> = {
+  [CBOR_TAG_EPOCH_DAYS]: (content) => {
+    if (typeof content === "bigint") content = Number(content);
+    if (typeof content !== "number" || !Number.isInteger(content)) {
+      throw new Error(
+        `Invalid content for CBOR tag ${CBOR_TAG_EPOCH_DAYS}: expected an integer.`,
+      );
+    }
+    return CalendarDate.fromEpochDays(content);
+  },
+  [CBOR_TAG_FULL_DATE]: (content) => {
+    if (typeof content !== "string") {
+      throw new Error(
+        `Invalid content for CBOR tag ${CBOR_TAG_FULL_DATE}: expected a text string.`,
+      );
+    }
+    return CalendarDate.fromString(content);
+  },
+};
+
+/** A MessagePack extension type for CalendarDate, from createMsgpackExtension() */
+interface MsgpackExtension {
+  /** The application-specific extension type number (0-127) */
+  readonly type: number;
+  /**
+   * Encode a date as the extension's data: the number of days since 1970-01-01 as a 4-byte big-endian signed
+   * integer, which MessagePack encodes as a "fixext 4" (6 bytes in total). Returns null for anything else.
+   */
+  encode(input: unknown): Uint8Array | null;
+  /** Decode the extension's data */
+  decode(data: Uint8Array): CalendarDate;
+}
+
+/**
+ * Create a MessagePack extension type for CalendarDate. MessagePack doesn't define a type for dates, so the
+ * application has to choose an extension type number for them. The returned object has the same shape as the
+ * extension codecs of common MessagePack libraries, e.g. `extensionCodec.register(createMsgpackExtension(1))` with
+ * `@msgpack/msgpack`.
+ * @param type The extension type number to use (0-127)
+ */
+function createMsgpackExtension(type: number): MsgpackExtension {
+  if (!Number.isInteger(type) || type < 0 || type > 127) {
+    throw new Error(`Invalid MessagePack extension type (${type}).`);
+  }
+  return {
+    type,
+    encode(input) {
+      if (!(input instanceof CalendarDate)) {
+        return null;
+      }
+      const data = new Uint8Array(4);
+      new DataView(data.buffer).setInt32(0, input.toEpochDays());
+      return data;
+    },
+    decode(data) {
+      if (data.length !== 4) {
+        throw new Error(
+          `Invalid data length for a MessagePack date (${data.length}).`,
+        );
+      }
+      return CalendarDate.fromEpochDays(
+        new DataView(data.buffer, data.byteOffset, data.byteLength).getInt32(0),
+      );
+    },
+  };
+}
+
+export {
+  CBOR_TAG_EPOCH_DAYS,
+  CBOR_TAG_FULL_DATE,
+  cborTagDecoders,
+  createMsgpackExtension,
+  decodeCbor,
+  encodeCbor,
+  type MsgpackExtension,
+  packDate,
+  PACKED_DATE_LENGTH,
+  unpackDate,
+};
@@ -0,0 +1,60 @@
+import { CalendarDate, D } from "./CalendarDate.ts";
+import { formatPattern } from "./CalendarDateFormat.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("formatPattern()", async (t) => {
+  const cases: [string, string, string][] = [
+    ["2023-08-01", "yyyy-MM-dd", "2023-08-01"],
+    ["2023-08-01", "dd.MM.yyyy", "01.08.2023"],
+    ["2023-08-01", "yyyyMMdd", "20230801"],
+    ["2023-08-01", "d/M/yy", "1/8/23"],
+    ["0853-06-12", "y", "853"],
+    ["0853-06-12", "yyyyy", "00853"],
+    ["2003-06-12", "yy", "03"],
+    ["2023-08-01", "EEE d MMM", "Tue 1 Aug"],
+    ["2023-08-01", "EEEE, MMMM d, y", "Tuesday, August 1, 2023"],
+    ["2023-08-01", "EEEEE MMMMM", "T A"],
+    ["2023-08-01", "LLLL", "August"],
+    ["2023-08-01", "Q QQ QQQ QQQQ", "3 03 Q3 3rd quarter"],
+    ["2023-12-31", "D DD DDD", "365 365 365"],
+    ["2024-02-01", "D DD DDD", "32 32 032"],
+    ["2024-12-30", "YYYY-'W'ww-E", "2025-W01-Mon"],
+    ["2024-12-30", "yyyy 'week' w", "2024 week 1"],
+    ["2023-08-01", "'Today is' EEEE", "Today is Tuesday"],
+    ["2023-08-01", "'h' 'o''clock' ''", "h o'clock '"],
+  ];
+  for (const [date, pattern, expected] of cases) {
+    await t.step(`"${pattern}" formats ${date} as "${expected}"`, () => {
+      assertEquals(
+        formatPattern(CalendarDate.fromString(date), pattern),
+        expected,
+      );
+    });
+  }
+
+  await t.step("with locale names from Intl", () => {
+    const date = D`2023-08-01`;
+    assertEquals(
+      formatPattern(date, "EEEE d MMMM y", "fr"),
+      "mardi 1 août 2023",
+    );
+    assertEquals(formatPattern(date, "d MMMM", "ru"), "1 августа");
+    assertEquals(formatPattern(date, "LLLL", "ru"), "август");
+    assertEquals(formatPattern(date, "EEE, d. MMM", "de"), "Di, 1. Aug.");
+  });
+
+  await t.step("rejects unsupported fields", () => {
+    for (const pattern of ["yyyy-MM-dd HH:mm", "h", "MMMMMM", "ddd", "G"]) {
+      assertThrows(
+        () => formatPattern(D`2023-08-01`, pattern),
+        Error,
+        "Unsupported pattern field",
+      );
+    }
+    assertThrows(
+      () => formatPattern(D`2023-08-01`, "'yyyy"),
+      Error,
+      "Unterminated quoted text in pattern.",
+    );
+  });
+});
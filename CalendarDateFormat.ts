@@ -0,0 +1,201 @@
+import type { CalendarDate } from "./CalendarDate.ts";
+import { isoWeek, isoWeekYear } from "./CalendarDateIsoWeek.ts";
+
+/**
+ * Month and weekday names used by formatPattern(). Each list of names has three widths: [wide, abbreviated, narrow],
+ * e.g. ["August", "Aug", "A"]. Weekdays start with Monday, like dayOfWeek.
+ */
+interface DateNames {
+  /** Month names as used within a date (e.g. Russian "15 августа") */
+  months: readonly (readonly string[])[];
+  /** Month names as used on their own (e.g. Russian "август") */
+  standaloneMonths: readonly (readonly string[])[];
+  weekdays: readonly (readonly string[])[];
+}
+
+const ENGLISH_MONTHS = Object.freeze([
+  "January February March April May June July August September October November December"
+    .split(" "),
+  "Jan Feb Mar Apr May Jun Jul Aug Sep Oct Nov Dec".split(" "),
+  "J F M A M J J A S O N D".split(" "),
+]);
+const ENGLISH_NAMES: DateNames = Object.freeze({
+  months: ENGLISH_MONTHS,
+  standaloneMonths: ENGLISH_MONTHS,
+  weekdays: Object.freeze([
+    "Monday Tuesday Wednesday Thursday Friday Saturday Sunday".split(" "),
+    "Mon Tue Wed Thu Fri Sat Sun".split(" "),
+    "M T W T F S S".split(" "),
+  ]),
+});
+const ENGLISH_QUARTERS = Object.freeze(
+  ["1st quarter", "2nd quarter", "3rd quarter", "4th quarter"],
+);
+
+/** Cache of month and weekday names for each locale that formatPattern() has been used with */
+const localeNames = new Map<string, DateNames>();
+
+/** Get the month and weekday names for some locale, from Intl (or in English, if Intl isn't available) */
+const getLocaleNames = (locale: string): DateNames => {
+  let names = localeNames.get(locale);
+  if (names === undefined) {
+    if (typeof Intl === "undefined") {
+      return ENGLISH_NAMES;
+    }
+    const widths = ["long", "short", "narrow"] as const;
+    const formatPart = (
+      options: Intl.DateTimeFormatOptions,
+      type: "month" | "weekday",
+      epochMs: number,
+    ) =>
+      new Intl.DateTimeFormat(locale, {
+        ...options,
+        calendar: "gregory",
+        timeZone: "UTC",
+      }).formatToParts(epochMs).find((part) => part.type === type)?.value ??
+        "";
+    const months = (withDay: boolean) =>
+      widths.map((width) =>
+        ENGLISH_MONTHS[0].map((_, i) =>
+          formatPart(
+            withDay ? { month: width, day: "numeric" } : { month: width },
+            "month",
+            Date.UTC(2001, i, 1),
+          )
+        )
+      );
+    names = {
+      months: months(true),
+      standaloneMonths: months(false),
+      // January 1, 2001 was a Monday:
+      weekdays: widths.map((width) =>
+        ENGLISH_NAMES.weekdays[0].map((_, i) =>
+          formatPart({ weekday: width }, "weekday", Date.UTC(2001, 0, 1 + i))
+        )
+      ),
+    };
+    localeNames.set(locale, names);
+  }
+  return names;
+};
+
+/** Format one field of a pattern, like "yyyy" or "MMM" */
+const formatField = (
+  date: CalendarDate,
+  letter: string,
+  count: number,
+  names: DateNames,
+): string => {
+  // The index of [wide, abbreviated, narrow] for names with 3, 4, or 5 letters:
+  const width = count === 3 ? 1 : count === 4 ? 0 : 2;
+  switch (letter) {
+    case "y":
+    case "Y": {
+      const year = letter === "y" ? date.year : isoWeekYear(date);
+      return count === 2
+        ? String(Math.abs(year) % 100).padStart(2, "0")
+        : (year < 0 ? "-" : "") + String(Math.abs(year)).padStart(count, "0");
+    }
+    case "M":
+    case "L":
+      if (count <= 2) {
+        return String(date.month).padStart(count, "0");
+      } else if (count <= 5) {
+        const months = letter === "M" ? names.months : names.standaloneMonths;
+        return months[width][date.month - 1];
+      }
+      break;
+    case "d":
+      if (count <= 2) {
+        return String(date.day).padStart(count, "0");
+      }
+      break;
+    case "D":
+      if (count <= 3) {
+        return String(date.dayOfYear + 1).padStart(count, "0");
+      }
+      break;
+    case "E":
+      if (count <= 5) {
+        return names.weekdays[count < 3 ? 1 : width][date.dayOfWeek];
+      }
+      break;
+    case "Q":
+    case "q": {
+      const quarter = Math.ceil(date.month / 3);
+      if (count <= 2 || count === 5) {
+        return String(quarter).padStart(count === 5 ? 1 : count, "0");
+      } else if (count === 3) {
+        return `Q${quarter}`;
+      } else if (count === 4) {
+        return ENGLISH_QUARTERS[quarter - 1];
+      }
+      break;
+    }
+    case "w":
+      if (count <= 2) {
+        return String(isoWeek(date)).padStart(count, "0");
+      }
+      break;
+  }
+  throw new Error(`Unsupported pattern field "${letter.repeat(count)}".`);
+};
+
+/**
+ * Format a date using a pattern made of Unicode LDML fields, e.g. "yyyy-MM-dd", "dd.MM.yyyy" or "EEE d MMM":
+ * `formatPattern(date, "EEE d MMM")`.
+ *
+ * Supported fields:
+ * - y, yy, yyyy: year (yy is the last two digits; any other length is the minimum number of digits)
+ * - Y, YY, YYYY: ISO 8601 week-numbering year (use this with "w", not "y")
+ * - M, MM: month number; MMM, MMMM, MMMMM: abbreviated, full, or narrow month name ("L" for the standalone form)
+ * - d, dd: day of the month
+ * - D, DD, DDD: day of the year (1-366)
+ * - E, EE, EEE, EEEE, EEEEE: abbreviated, full, or narrow day of the week
+ * - Q, QQ: quarter number; QQQ: "Q3"; QQQQ: "3rd quarter" ("q" for the standalone form)
+ * - w, ww: ISO 8601 week number
+ *
+ * Other ASCII letters are reserved and will throw an error; to include them literally, put them in single quotes,
+ * e.g. "d 'de' MMMM". Two single quotes ('') print a single quote.
+ *
+ * Unlike CalendarDate's format(), this doesn't need Intl. Names are in English unless you specify a locale, in which
+ * case month and weekday names come from Intl. Numbers always use ASCII digits, and quarter names are always in
+ * English.
+ */
+function formatPattern(
+  date: CalendarDate,
+  pattern: string,
+  locale?: string,
+): string {
+  const names = locale === undefined ? ENGLISH_NAMES : getLocaleNames(locale);
+  let result = "";
+  let quoted = false;
+  for (let i = 0; i < pattern.length;) {
+    const char = pattern[i];
+    if (char === "'") {
+      if (pattern[i + 1] === "'") {
+        result += "'";
+        i += 2;
+      } else {
+        quoted = !quoted;
+        i++;
+      }
+    } else if (quoted || !/[A-Za-z]/.test(char)) {
+      result += char;
+      i++;
+    } else {
+      let count = 1;
+      while (pattern[i + count] === char) {
+        count++;
+      }
+      result += formatField(date, char, count, names);
+      i += count;
+    }
+  }
+  if (quoted) {
+    throw new Error(`Unterminated quoted text in pattern.`);
+  }
+  return result;
+}
+
+export { formatPattern };
@@ -0,0 +1,118 @@
+import { CalendarDate, D } from "./CalendarDate.ts";
+import {
+  fromIsoWeek,
+  isoWeek,
+  isoWeeksInYear,
+  isoWeekYear,
+  toIsoWeekString,
+} from "./CalendarDateIsoWeek.ts";
+import { parse } from "./CalendarDateParse.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("ISO week dates", async (t) => {
+  // deno-fmt-ignore
+  const cases: [date: string, weekDate: string][] = [
+    ["2024-01-31", "2024-W05-3"],
+    ["2024-01-01", "2024-W01-1"],
+    ["2024-12-29", "2024-W52-7"],
+    ["2024-12-30", "2025-W01-1"], // Early start of the 2025 week year
+    ["2021-01-03", "2020-W53-7"], // Late end of the 2020 week year
+    ["2008-12-29", "2009-W01-1"],
+    ["2010-01-03", "2009-W53-7"],
+    ["2005-01-01", "2004-W53-6"],
+    ["2007-12-30", "2007-W52-7"],
+    ["0001-01-01", "0001-W01-1"],
+    ["9999-12-31", "9999-W52-5"],
+  ];
+  for (const [dateStr, weekDateStr] of cases) {
+    await t.step(`${dateStr} is ${weekDateStr}`, () => {
+      const date = CalendarDate.fromString(dateStr);
+      assertEquals(toIsoWeekString(date), weekDateStr);
+      assertEquals(isoWeekYear(date), Number(weekDateStr.substring(0, 4)));
+      assertEquals(isoWeek(date), Number(weekDateStr.substring(6, 8)));
+      assertEquals(parse(weekDateStr).toString(), dateStr);
+      assertEquals(
+        parse(weekDateStr.split("-").join("")).toString(),
+        dateStr,
+      );
+    });
+  }
+
+  await t.step("fromIsoWeek()", () => {
+    assertEquals(fromIsoWeek(2025, 1).toString(), "2024-12-30");
+    assertEquals(fromIsoWeek(2025, 1, 0).toString(), "2024-12-30");
+    assertEquals(fromIsoWeek(2024, 5, 2).toString(), "2024-01-31");
+    assertEquals(
+      fromIsoWeek(2020, 53, 6).toString(),
+      "2021-01-03",
+    );
+    assertThrows(
+      () => fromIsoWeek(2024, 0),
+      Error,
+      "Week out of range.",
+    );
+    assertThrows(
+      () => fromIsoWeek(2024, 53),
+      Error,
+      "Week out of range.",
+    );
+    assertThrows(
+      () => fromIsoWeek(2024, 1, 7),
+      Error,
+      "Day of week out of range.",
+    );
+    assertThrows(
+      () => parse("2024-W05-8"),
+      Error,
+      "Day of week out of range.",
+    );
+    assertThrows(
+      () => parse("2024-W05-0"),
+      Error,
+      "Day of week out of range.",
+    );
+  });
+
+  await t.step("isoWeeksInYear()", () => {
+    assertEquals(isoWeeksInYear(2015), 53); // Starts on a Thursday
+    assertEquals(isoWeeksInYear(2020), 53); // Leap year that starts on a Wednesday
+    assertEquals(isoWeeksInYear(2019), 52); // Starts on a Tuesday
+    assertEquals(isoWeeksInYear(2014), 52); // Non-leap year that starts on a Wednesday
+  });
+
+  await t.step("round trips every date from 1990 to 2030", () => {
+    for (
+      let value = D`1990-01-01`.value;
+      value <= D`2030-12-31`.value;
+      value++
+    ) {
+      const date = new CalendarDate(value);
+      assertEquals(
+        fromIsoWeek(isoWeekYear(date), isoWeek(date), date.dayOfWeek)
+          .value,
+        value,
+      );
+      assertEquals(
+        parse(toIsoWeekString(date)).value,
+        value,
+      );
+    }
+  });
+});
+
+Deno.test({
+  name: "ISO week dates match Temporal.PlainDate",
+  ignore: typeof Temporal === "undefined",
+  fn: () => {
+    for (
+      let value = D`1990-01-01`.value;
+      value <= D`2030-12-31`.value;
+      value++
+    ) {
+      const date = new CalendarDate(value);
+      const plainDate = date.toPlainDate();
+      assertEquals(isoWeek(date), plainDate.weekOfYear);
+      assertEquals(isoWeekYear(date), plainDate.yearOfWeek);
+    }
+  },
+});
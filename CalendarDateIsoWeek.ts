@@ -0,0 +1,90 @@
+import {
+  CalendarDate,
+  dayOfWeekOfValue,
+  formatIsoYear,
+  yearOfValue,
+  yearStartValue,
+} from "./CalendarDate.ts";
+
+/**
+ * Get the value of the Thursday in the same ISO 8601 week as the given date value. A week belongs to whichever year its
+ * Thursday is in. (Near the ends of the extended range, the Thursday may be out of range, so this is just a value.)
+ */
+const thursdayOfWeek = (value: number): number =>
+  value - dayOfWeekOfValue(value) + 3;
+
+/**
+ * Get the date value of an ISO 8601 week date, without checking if the week and day of the week are valid, or if the
+ * date is in range (e.g. for parse(), which reports those problems itself)
+ */
+const isoWeekToValue = (
+  year: number,
+  week: number,
+  dayOfWeek: number,
+): number => {
+  // Week 1 is the week that contains January 4:
+  const jan4 = yearStartValue(year) + 3;
+  return jan4 - dayOfWeekOfValue(jan4) + (week - 1) * 7 + dayOfWeek;
+};
+
+/**
+ * Get the ISO 8601 week-numbering year of a date. This is usually the same as its year, but can be different for the
+ * first few and last few days of the year, e.g. Monday, Dec. 30, 2024 is in week 1 of 2025.
+ */
+function isoWeekYear(date: CalendarDate): number {
+  return yearOfValue(thursdayOfWeek(date.value));
+}
+
+/** Get the ISO 8601 week number (1-53) of a date */
+function isoWeek(date: CalendarDate): number {
+  const thursday = thursdayOfWeek(date.value);
+  return ((thursday - yearStartValue(yearOfValue(thursday))) / 7 | 0) + 1;
+}
+
+/**
+ * How many weeks (52 or 53) are in the specified ISO 8601 week-numbering year?
+ * @param year ISO week-numbering year
+ */
+function isoWeeksInYear(year: number): number {
+  // Years that start on a Thursday (or leap years that start on a Wednesday) have 53 weeks:
+  const jan1DayOfWeek = dayOfWeekOfValue(yearStartValue(year));
+  return jan1DayOfWeek === 3 ||
+      (jan1DayOfWeek === 2 && CalendarDate.isLeapYear(year))
+    ? 53
+    : 52;
+}
+
+/**
+ * Construct a CalendarDate from an ISO 8601 week date: a week-numbering year, a week number, and a day of the week.
+ * e.g. fromIsoWeek(2025, 1, 0) is Monday, Dec. 30, 2024.
+ * @param year ISO week-numbering year (e.g. 2025)
+ * @param week Week number (1-53)
+ * @param dayOfWeek Day of the week, using the same convention as the dayOfWeek getter (0 = Monday, 6 = Sunday).
+ *                  Note that this is one less than the weekday number used in ISO week date strings.
+ */
+function fromIsoWeek(year: number, week: number, dayOfWeek = 0): CalendarDate {
+  if (week < 1 || week > isoWeeksInYear(year)) {
+    throw new Error(`Week out of range.`);
+  } else if (dayOfWeek < 0 || dayOfWeek > 6) {
+    throw new Error(`Day of week out of range.`);
+  }
+  return new CalendarDate(isoWeekToValue(year, week, dayOfWeek));
+}
+
+/**
+ * Get a date as an ISO 8601 week date string (e.g. "2025-W01-1" for Monday, Dec. 30, 2024)
+ */
+function toIsoWeekString(date: CalendarDate): string {
+  const week = isoWeek(date);
+  return formatIsoYear(isoWeekYear(date)) +
+    (week < 10 ? "-W0" : "-W") + week + "-" + (date.dayOfWeek + 1);
+}
+
+export {
+  fromIsoWeek,
+  isoWeek,
+  isoWeeksInYear,
+  isoWeekToValue,
+  isoWeekYear,
+  toIsoWeekString,
+};
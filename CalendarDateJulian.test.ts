@@ -0,0 +1,83 @@
+import { CalendarDate, D } from "./CalendarDate.ts";
+import {
+  fromJulian,
+  fromJulianDayNumber,
+  fromModifiedJulianDay,
+  toJulianDayNumber,
+  toJulianTriplet,
+  toModifiedJulianDay,
+} from "./CalendarDateJulian.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("Julian Day Number and Modified Julian Day", () => {
+  assertEquals(toJulianDayNumber(D`2000-01-01`), 2451545);
+  assertEquals(toModifiedJulianDay(D`1858-11-17`), 0);
+  assertEquals(toModifiedJulianDay(D`2000-01-01`), 51544);
+  assertEquals(
+    toJulianDayNumber(D`2024-02-29`) - toModifiedJulianDay(D`2024-02-29`),
+    2400001,
+  );
+  for (const date of [D`0001-01-01`, D`1582-10-15`, D`9999-12-31`]) {
+    assertEquals(
+      fromJulianDayNumber(toJulianDayNumber(date)).toString(),
+      date.toString(),
+    );
+    assertEquals(
+      fromModifiedJulianDay(toModifiedJulianDay(date)).toString(),
+      date.toString(),
+    );
+  }
+  assertThrows(
+    () => fromJulianDayNumber(0),
+    Error,
+    "Julian Day Number (0) out of range.",
+  );
+  assertThrows(
+    () => fromModifiedJulianDay(2973484),
+    Error,
+    "Modified Julian Day (2973484) out of range.",
+  );
+});
+
+Deno.test("Julian calendar", () => {
+  assertEquals(toJulianTriplet(D`1582-10-15`), {
+    year: 1582,
+    month: 10,
+    day: 5,
+  });
+  assertEquals(fromJulian(1582, 10, 4).toString(), "1582-10-14");
+  assertEquals(fromJulian(1900, 2, 29).toString(), "1900-03-13");
+  assertEquals(toJulianTriplet(D`2000-01-01`), {
+    year: 1999,
+    month: 12,
+    day: 19,
+  });
+  // In the 3rd century, the two calendars were the same:
+  assertEquals(toJulianTriplet(D`0250-06-15`), {
+    year: 250,
+    month: 6,
+    day: 15,
+  });
+  // Round trip every 11th day over the whole supported range:
+  for (let value = 368; value <= 3652424; value += 11) {
+    const date = new CalendarDate(value);
+    const { year, month, day } = toJulianTriplet(date);
+    assertEquals(fromJulian(year, month, day).value, value);
+  }
+  assertEquals(toJulianTriplet(D`0001-01-01`), { year: 1, month: 1, day: 3 });
+  assertThrows(
+    () => fromJulian(1, 1, 1),
+    Error,
+    "Julian Day Number (1721424) out of range.",
+  );
+  assertThrows(
+    () => fromJulian(1900, 2, 30),
+    Error,
+    "Day out of range.",
+  );
+  assertThrows(
+    () => fromJulian(1900, 13, 1),
+    Error,
+    "Month out of range.",
+  );
+});
@@ -0,0 +1,102 @@
+import { CalendarDate, type DateTriplet } from "./CalendarDate.ts";
+
+/** The Julian Day Number of 0000-01-01, whose value is 0 */
+const JDN_OFFSET = 1721060;
+/** The value of 1858-11-17, which is day 0 of the Modified Julian Day */
+const MJD_OFFSET = 678941;
+
+/**
+ * Get the Julian Day Number of a date, a count of days used by astronomers and many historical calendar conversions.
+ * Day 0 is January 1, 4713 BCE in the Julian calendar; 2000-01-01 is 2451545.
+ */
+function toJulianDayNumber(date: CalendarDate): number {
+  return date.value + JDN_OFFSET;
+}
+
+/**
+ * Construct a CalendarDate from a Julian Day Number
+ * @param julianDayNumber The Julian Day Number (e.g. 2451545 for 2000-01-01)
+ */
+function fromJulianDayNumber(julianDayNumber: number): CalendarDate {
+  if (
+    julianDayNumber < CalendarDate.minValue + JDN_OFFSET ||
+    julianDayNumber > CalendarDate.maxValue + JDN_OFFSET
+  ) {
+    throw new Error(`Julian Day Number (${julianDayNumber}) out of range.`);
+  }
+  return new CalendarDate(julianDayNumber - JDN_OFFSET);
+}
+
+/**
+ * Get the Modified Julian Day of a date (the Julian Day Number - 2400001), which counts days since Nov. 17, 1858.
+ * 2000-01-01 is 51544.
+ */
+function toModifiedJulianDay(date: CalendarDate): number {
+  return date.value - MJD_OFFSET;
+}
+
+/**
+ * Construct a CalendarDate from a Modified Julian Day
+ * @param modifiedJulianDay Days since 1858-11-17 (negative for earlier dates)
+ */
+function fromModifiedJulianDay(modifiedJulianDay: number): CalendarDate {
+  if (
+    modifiedJulianDay < CalendarDate.minValue - MJD_OFFSET ||
+    modifiedJulianDay > CalendarDate.maxValue - MJD_OFFSET
+  ) {
+    throw new Error(`Modified Julian Day (${modifiedJulianDay}) out of range.`);
+  }
+  return new CalendarDate(modifiedJulianDay + MJD_OFFSET);
+}
+
+/**
+ * Construct a CalendarDate from a date in the Julian calendar, e.g. fromJulian(1582, 10, 4) is Oct. 14, 1582 (the day
+ * before the Gregorian calendar was first adopted, on Oct. 15).
+ * @param year Year in the Julian calendar (e.g. 1582)
+ * @param month Month (1 for January, 12 for December)
+ * @param day Day (1-31)
+ */
+function fromJulian(year: number, month: number, day: number): CalendarDate {
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    throw new Error(`Month out of range.`);
+  }
+  // Every fourth year is a leap year in the Julian calendar:
+  const daysInMonth = month === 2 && year % 4 === 0
+    ? 29
+    : CalendarDate.daysInMonth(2001, month);
+  if (day < 1 || day > daysInMonth) {
+    throw new Error(`Day out of range.`);
+  }
+  // Convert to a Julian Day Number, counting years from March so that the leap day is at the end of the year:
+  const a = (14 - month) / 12 | 0;
+  const y = year + 4800 - a, m = month + 12 * a - 3;
+  return fromJulianDayNumber(
+    day + ((153 * m + 2) / 5 | 0) + 365 * y + Math.floor(y / 4) - 32083,
+  );
+}
+
+/**
+ * Get the year, month and day of a date in the Julian calendar, which was used before the Gregorian calendar.
+ * e.g. Oct. 15, 1582 (when the Gregorian calendar was first adopted) is {year: 1582, month: 10, day: 5}.
+ */
+function toJulianTriplet(date: CalendarDate): DateTriplet {
+  const c = toJulianDayNumber(date) + 32082;
+  // (Math.floor rather than "| 0", since c is negative before 4801 BCE)
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor(1461 * d / 4);
+  const m = (5 * e + 2) / 153 | 0;
+  return {
+    year: d - 4800 + (m / 10 | 0),
+    month: m + 3 - 12 * (m / 10 | 0),
+    day: e - ((153 * m + 2) / 5 | 0) + 1,
+  };
+}
+
+export {
+  fromJulian,
+  fromJulianDayNumber,
+  fromModifiedJulianDay,
+  toJulianDayNumber,
+  toJulianTriplet,
+  toModifiedJulianDay,
+};
@@ -0,0 +1,68 @@
+import { CalendarDate, D } from "./CalendarDate.ts";
+import { fromOrdinal, toOrdinalString } from "./CalendarDateOrdinal.ts";
+import { parse } from "./CalendarDateParse.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("ISO ordinal dates", async (t) => {
+  // deno-fmt-ignore
+  const cases: [date: string, ordinalDate: string][] = [
+    ["2024-01-01", "2024-001"],
+    ["2024-02-14", "2024-045"],
+    ["2024-12-31", "2024-366"], // leap year
+    ["2023-12-31", "2023-365"],
+    ["2023-03-01", "2023-060"],
+    ["2024-03-01", "2024-061"],
+    ["0001-01-01", "0001-001"],
+    ["9999-12-31", "9999-365"],
+  ];
+  for (const [dateStr, ordinalStr] of cases) {
+    await t.step(`${dateStr} is ${ordinalStr}`, () => {
+      const date = CalendarDate.fromString(dateStr);
+      assertEquals(toOrdinalString(date), ordinalStr);
+      assertEquals(parse(ordinalStr).toString(), dateStr);
+      assertEquals(
+        parse(ordinalStr.replace("-", "")).toString(),
+        dateStr,
+      );
+    });
+  }
+
+  await t.step("fromOrdinal() uses a 1-based day of the year", () => {
+    assertEquals(fromOrdinal(2024, 1).toString(), "2024-01-01");
+    assertEquals(fromOrdinal(2024, 45).toString(), "2024-02-14");
+    const date = D`2024-08-15`;
+    assertEquals(
+      fromOrdinal(date.year, date.dayOfYear + 1).toString(),
+      "2024-08-15",
+    );
+  });
+
+  await t.step("rejects out of range days", () => {
+    assertThrows(
+      () => fromOrdinal(2024, 0),
+      Error,
+      "Day of year out of range.",
+    );
+    assertThrows(
+      () => fromOrdinal(2024, 367),
+      Error,
+      "Day of year out of range.",
+    );
+    assertThrows(
+      () => fromOrdinal(2023, 366),
+      Error,
+      "Day of year out of range.",
+    );
+    assertThrows(
+      () => parse("2023-366"),
+      Error,
+      "Day of year out of range.",
+    );
+    assertThrows(
+      () => parse("2023-000"),
+      Error,
+      "Day of year out of range.",
+    );
+    assertThrows(() => parse("2023-0a1"));
+  });
+});
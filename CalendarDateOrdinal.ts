@@ -0,0 +1,29 @@
+import { CalendarDate, formatIsoYear, yearStartValue } from "./CalendarDate.ts";
+
+/**
+ * Construct a CalendarDate from an ISO 8601 ordinal date: a year and a day of the year.
+ * e.g. fromOrdinal(2024, 45) is Feb. 14, 2024.
+ *
+ * Note that the day of the year is 1-based here (1 = January 1), as in ISO 8601 ordinal dates, whereas the dayOfYear
+ * getter is 0-based (0 = January 1). So `fromOrdinal(date.year, date.dayOfYear + 1)` gives `date`.
+ * @param year Year (e.g. 2024)
+ * @param dayOfYear Day of the year (1-365, or 1-366 in leap years)
+ */
+function fromOrdinal(year: number, dayOfYear: number): CalendarDate {
+  if (
+    dayOfYear < 1 || dayOfYear > (CalendarDate.isLeapYear(year) ? 366 : 365)
+  ) {
+    throw new Error(`Day of year out of range.`);
+  }
+  return new CalendarDate(yearStartValue(year) + dayOfYear - 1);
+}
+
+/**
+ * Get a date as an ISO 8601 ordinal date string (e.g. "2024-045" for Feb. 14, 2024)
+ */
+function toOrdinalString(date: CalendarDate): string {
+  return formatIsoYear(date.year) + "-" +
+    String(date.dayOfYear + 1).padStart(3, "0");
+}
+
+export { fromOrdinal, toOrdinalString };
@@ -0,0 +1,122 @@
+import {
+  type CalendarDateField,
+  CalendarDateParseError,
+} from "./CalendarDate.ts";
+import { parse, tryParse } from "./CalendarDateParse.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("parse()", async (t) => {
+  await t.step("parses all ISO 8601 date formats", () => {
+    // deno-fmt-ignore
+    const cases: [input: string, expected: string][] = [
+      ["2024-01-05", "2024-01-05"],
+      ["20240105", "2024-01-05"],
+      ["2024-W01-5", "2024-01-05"],
+      ["2024W015", "2024-01-05"],
+      ["2024-005", "2024-01-05"],
+      ["2024005", "2024-01-05"],
+      // Expanded years:
+      ["+002024-01-05", "2024-01-05"],
+      ["+0020240105", "2024-01-05"],
+      ["+009999-12-31", "9999-12-31"],
+      ["+002024-W01-5", "2024-01-05"],
+      ["+002024-005", "2024-01-05"],
+    ];
+    for (const [input, expected] of cases) {
+      assertEquals(parse(input).toString(), expected, input);
+      assertEquals(
+        parse(input, { mode: "lenient" }).toString(),
+        expected,
+        input,
+      );
+    }
+  });
+
+  await t.step("lenient mode", () => {
+    const lenient = { mode: "lenient" } as const;
+    assertEquals(
+      parse(" 2024-01-05 ", lenient).toString(),
+      "2024-01-05",
+    );
+    assertEquals(
+      parse("\t2024-1-5\n", lenient).toString(),
+      "2024-01-05",
+    );
+    assertEquals(
+      parse("2024-12-5", lenient).toString(),
+      "2024-12-05",
+    );
+    assertEquals(
+      parse("2024-1-31", lenient).toString(),
+      "2024-01-31",
+    );
+    assertThrows(() => parse("2024-1-5"), CalendarDateParseError);
+    assertThrows(
+      () => parse(" 2024-01-05"),
+      CalendarDateParseError,
+    );
+    assertThrows(
+      () => parse("2024-001-5", lenient),
+      CalendarDateParseError,
+    );
+  });
+
+  await t.step("reports which field is invalid, and where", () => {
+    // deno-fmt-ignore
+    const cases: [input: string, field: CalendarDateField | undefined, offset: number, message: string][] = [
+      ["hello", "year", 0, "Expected 4-digit year."],
+      ["", "year", 0, "Expected 4-digit year."],
+      ["202-01-05", "year", 0, "Expected 4-digit year."],
+      ["2024-1a-05", "month", 5, "Expected 2-digit month."],
+      ["2024-01-0x", "day", 8, "Expected 2-digit day."],
+      ["2024-13-05", "month", 5, "Month out of range."],
+      ["2023-02-29", "day", 8, "Day out of range."],
+      ["2024-00-05", "month", 5, "Month out of range."],
+      ["2024-01-05x", undefined, 10, 'Unexpected "x".'],
+      ["2024-01/05", undefined, 7, 'Expected "-".'],
+      ["2024,01,01", undefined, 4, 'Expected "-".'],
+      ["2024/01/01", undefined, 4, 'Expected "-".'],
+      ["2024", "month", 4, "Expected 2-digit month."],
+      ["2024-W54-1", "week", 6, "Week out of range."],
+      ["2024-W53-1", "week", 6, "Week out of range."],
+      ["2024W018", "weekday", 7, "Day of week out of range."],
+      ["2023-366", "dayOfYear", 5, "Day of year out of range."],
+      ["+2024-01-05", "year", 1, "Expected 6-digit year."],
+      ["-000001-01-01", "year", 0, "Year out of range."],
+      ["+010000-01-01", "year", 0, "Year out of range."],
+      ["0000-01-01", "year", 0, "Year out of range."],
+    ];
+    for (const [input, field, offset, message] of cases) {
+      const err = assertThrows(
+        () => parse(input),
+        CalendarDateParseError,
+      );
+      assertEquals(err.field, field, input);
+      assertEquals(err.offset, offset, input);
+      assertEquals(err.input, input);
+      assertEquals(
+        err.message,
+        `${message} (at offset ${offset} in "${input}")`,
+      );
+    }
+  });
+
+  await t.step("offsets account for whitespace trimmed in lenient mode", () => {
+    const err = assertThrows(
+      () => parse("  2024-13-05", { mode: "lenient" }),
+      CalendarDateParseError,
+    );
+    assertEquals(err.offset, 7);
+  });
+});
+
+Deno.test("tryParse()", () => {
+  assertEquals(tryParse("2024-01-05")?.toString(), "2024-01-05");
+  assertEquals(
+    tryParse("2024-1-5", { mode: "lenient" })?.toString(),
+    "2024-01-05",
+  );
+  assertEquals(tryParse("2024-1-5"), undefined);
+  assertEquals(tryParse("hello"), undefined);
+  assertEquals(tryParse("2023-02-29"), undefined);
+});
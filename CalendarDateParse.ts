@@ -0,0 +1,168 @@
+import {
+  CalendarDate,
+  type CalendarDateField,
+  CalendarDateParseError,
+  parseIsoYear,
+  yearStartValue,
+} from "./CalendarDate.ts";
+import { isoWeeksInYear, isoWeekToValue } from "./CalendarDateIsoWeek.ts";
+
+/** Options for parse() and tryParse() */
+interface ParseOptions {
+  /**
+   * "strict" (the default) only accepts ISO 8601 formats exactly. "lenient" also ignores leading and trailing
+   * whitespace, and accepts single-digit months and days (e.g. "2024-1-5").
+   */
+  mode?: "strict" | "lenient";
+}
+
+/** Human-readable names for each CalendarDateField, for error messages */
+const FIELD_NAMES = Object.freeze({
+  year: "year",
+  month: "month",
+  day: "day",
+  week: "week",
+  weekday: "day of week",
+  dayOfYear: "day of year",
+});
+
+/**
+ * Parse an ISO 8601 date string, with detailed error reporting.
+ *
+ * Supports calendar dates ("YYYY-MM-DD" or "YYYYMMDD"), week dates ("YYYY-Www-D" or "YYYYWwwD"), and ordinal dates
+ * ("YYYY-DDD" or "YYYYDDD"). The year can also be an ISO 8601 expanded year with a sign and six digits, e.g.
+ * "+002024-01-05".
+ *
+ * In "lenient" mode, leading and trailing whitespace is ignored, and the month and day can be a single digit as long
+ * as the string uses hyphens (e.g. "2024-1-5").
+ *
+ * If the string can't be parsed, this throws a CalendarDateParseError which says which field was invalid and where.
+ * @param str An ISO 8601 date string
+ */
+function parse(str: string, options: ParseOptions = {}): CalendarDate {
+  const lenient = options.mode === "lenient";
+  let pos = 0;
+  let end = str.length;
+  if (lenient) {
+    while (pos < end && str.charAt(pos).trim() === "") pos++;
+    while (end > pos && str.charAt(end - 1).trim() === "") end--;
+  }
+  const fail = (
+    message: string,
+    field: CalendarDateField | undefined,
+    offset = pos,
+  ): never => {
+    throw new CalendarDateParseError(message, str, field, offset);
+  };
+  const peek = () => pos < end ? str.charAt(pos) : "";
+  /** Read an integer of the given number of digits (or at least minDigits digits) */
+  const readInt = (
+    field: CalendarDateField,
+    digits: number,
+    minDigits = digits,
+  ): number => {
+    let count = 0;
+    while (count < digits && /\d/.test(str.charAt(pos + count))) count++;
+    if (count < minDigits) {
+      fail(`Expected ${digits}-digit ${FIELD_NAMES[field]}.`, field);
+    }
+    pos += count;
+    return Number(str.substring(pos - count, pos));
+  };
+  const expect = (char: string) => {
+    if (peek() !== char) fail(`Expected "${char}".`, undefined);
+    pos++;
+  };
+  const expectEnd = () => {
+    if (pos < end) fail(`Unexpected "${peek()}".`, undefined);
+  };
+
+  // The year is either four digits, or a sign and six digits (an ISO 8601 expanded year, e.g. "+002024")
+  const yearOffset = pos;
+  const [year, yearEnd] = parseIsoYear(str, pos, end);
+  pos = yearEnd;
+  const checkYear = () => {
+    const yearStart = yearStartValue(year);
+    if (
+      yearStart < CalendarDate.minValue || yearStart > CalendarDate.maxValue
+    ) {
+      fail(`Year out of range.`, "year", yearOffset);
+    }
+  };
+  // Then either a hyphen (extended format) or nothing (basic format) before the rest of the date:
+  const extended = peek() === "-";
+  if (extended) {
+    pos++;
+  } else if (pos < end && peek() !== "W" && !/\d/.test(peek())) {
+    // e.g. "2024,01,05" or "2024/01/05"
+    fail(`Expected "-".`, undefined);
+  }
+
+  if (peek() === "W") {
+    // Week date:
+    pos++;
+    const weekOffset = pos;
+    const week = readInt("week", 2);
+    if (extended) expect("-");
+    const weekdayOffset = pos;
+    const weekday = readInt("weekday", 1);
+    expectEnd();
+    if (week < 1 || week > isoWeeksInYear(year)) {
+      fail(`Week out of range.`, "week", weekOffset);
+    } else if (weekday < 1 || weekday > 7) {
+      fail(`Day of week out of range.`, "weekday", weekdayOffset);
+    }
+    // In ISO week dates, the weekday is 1 for Monday through 7 for Sunday:
+    const value = isoWeekToValue(year, week, weekday - 1);
+    // (The first or last few days of a week-numbering year can be in a different year, so check the date itself.)
+    if (value < CalendarDate.minValue || value > CalendarDate.maxValue) {
+      fail(`Year out of range.`, "year", yearOffset);
+    }
+    return new CalendarDate(value);
+  } else if (/^\d{3}$/.test(str.substring(pos, end))) {
+    // Ordinal date:
+    const dayOfYearOffset = pos;
+    const dayOfYear = readInt("dayOfYear", 3);
+    checkYear();
+    if (
+      dayOfYear < 1 || dayOfYear > (CalendarDate.isLeapYear(year) ? 366 : 365)
+    ) {
+      fail(`Day of year out of range.`, "dayOfYear", dayOfYearOffset);
+    }
+    return new CalendarDate(yearStartValue(year) + dayOfYear - 1);
+  }
+  // Calendar date:
+  const monthOffset = pos;
+  const month = readInt("month", 2, lenient && extended ? 1 : 2);
+  if (extended) expect("-");
+  const dayOffset = pos;
+  const day = readInt("day", 2, lenient && extended ? 1 : 2);
+  expectEnd();
+  checkYear();
+  if (month < 1 || month > 12) {
+    fail(`Month out of range.`, "month", monthOffset);
+  } else if (day < 1 || day > CalendarDate.daysInMonth(year, month)) {
+    fail(`Day out of range.`, "day", dayOffset);
+  }
+  return CalendarDate.create(year, month, day);
+}
+
+/**
+ * Like parse(), but returns undefined instead of throwing an error if the string can't be parsed.
+ * @param str An ISO 8601 date string
+ */
+function tryParse(
+  str: string,
+  options: ParseOptions = {},
+): CalendarDate | undefined {
+  try {
+    return parse(str, options);
+  } catch (err) {
+    if (err instanceof CalendarDateParseError) {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+export { parse, type ParseOptions, tryParse };
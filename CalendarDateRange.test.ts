@@ -0,0 +1,195 @@
+import { CalendarDate, D } from "./CalendarDate.ts";
+import { CalendarDateRange } from "./CalendarDateRange.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+/** Shorthand for creating an inclusive range from two ISO 8601 date strings */
+const R = (start: string, end: string) =>
+  CalendarDateRange.create(
+    CalendarDate.fromString(start),
+    CalendarDate.fromString(end),
+  );
+
+Deno.test("CalendarDateRange.create()", async (t) => {
+  await t.step("with an inclusive end (the default)", () => {
+    const range = CalendarDateRange.create(D`2023-08-01`, D`2023-08-31`);
+    assertEquals(range.start.toString(), "2023-08-01");
+    assertEquals(range.end.toString(), "2023-08-31");
+    assertEquals(range.inclusiveEnd, true);
+    assertEquals(range.length, 31);
+  });
+
+  await t.step("with an exclusive end", () => {
+    const range = CalendarDateRange.create(D`2023-08-01`, D`2023-09-01`, {
+      inclusiveEnd: false,
+    });
+    assertEquals(range.start.toString(), "2023-08-01");
+    assertEquals(range.end.toString(), "2023-09-01");
+    assertEquals(range.inclusiveEnd, false);
+    assertEquals(range.length, 31);
+    assertEquals(range.equals(R("2023-08-01", "2023-08-31")), true);
+  });
+
+  await t.step("single day and empty ranges", () => {
+    assertEquals(R("2023-08-01", "2023-08-01").length, 1);
+    const empty = CalendarDateRange.create(D`2023-08-01`, D`2023-08-01`, {
+      inclusiveEnd: false,
+    });
+    assertEquals(empty.length, 0);
+    assertEquals([...empty], []);
+  });
+
+  await t.step("at the end of the supported range", () => {
+    const range = CalendarDateRange.fromString("9999-12-01/9999-12-31", {
+      inclusiveEnd: false,
+    });
+    assertEquals(range.length, 31);
+    assertEquals(range.toString(), "9999-12-01/9999-12-31");
+    // The first date after the range is +010000-01-01, which only exists in the extended range:
+    assertThrows(() => range.end, Error, "Date value (3652425) out of range.");
+    CalendarDate.enableExtendedRange();
+    try {
+      assertEquals(range.end.toString(), "+010000-01-01");
+    } finally {
+      CalendarDate.enableExtendedRange(false);
+    }
+  });
+
+  await t.step("rejects ranges that end before they start", () => {
+    assertThrows(
+      () => R("2023-08-02", "2023-07-31"),
+      Error,
+      "Date range ends before it starts.",
+    );
+  });
+});
+
+Deno.test("CalendarDateRange.contains()", () => {
+  const august = R("2023-08-01", "2023-08-31");
+  assertEquals(august.contains(D`2023-07-31`), false);
+  assertEquals(august.contains(D`2023-08-01`), true);
+  assertEquals(august.contains(D`2023-08-15`), true);
+  assertEquals(august.contains(D`2023-08-31`), true);
+  assertEquals(august.contains(D`2023-09-01`), false);
+  // Ranges:
+  assertEquals(august.contains(R("2023-08-01", "2023-08-31")), true);
+  assertEquals(august.contains(R("2023-08-10", "2023-08-20")), true);
+  assertEquals(august.contains(R("2023-07-31", "2023-08-20")), false);
+  assertEquals(august.contains(R("2023-08-10", "2023-09-01")), false);
+});
+
+Deno.test("CalendarDateRange.overlaps(), intersect() and union()", async (t) => {
+  const august = R("2023-08-01", "2023-08-31");
+
+  await t.step("overlapping ranges", () => {
+    const other = R("2023-08-25", "2023-09-05");
+    assertEquals(august.overlaps(other), true);
+    assertEquals(other.overlaps(august), true);
+    assertEquals(august.intersect(other)?.toString(), "2023-08-25/2023-08-31");
+    assertEquals(august.union(other).toString(), "2023-08-01/2023-09-05");
+  });
+
+  await t.step("one range inside another", () => {
+    const other = R("2023-08-10", "2023-08-12");
+    assertEquals(august.overlaps(other), true);
+    assertEquals(august.intersect(other)?.toString(), "2023-08-10/2023-08-12");
+    assertEquals(august.union(other).toString(), "2023-08-01/2023-08-31");
+  });
+
+  await t.step("adjacent ranges", () => {
+    const september = R("2023-09-01", "2023-09-30");
+    assertEquals(august.overlaps(september), false);
+    assertEquals(august.intersect(september), undefined);
+    assertEquals(august.union(september).toString(), "2023-08-01/2023-09-30");
+  });
+
+  await t.step("ranges with a gap between them", () => {
+    const october = R("2023-10-01", "2023-10-31");
+    assertEquals(august.overlaps(october), false);
+    assertEquals(august.intersect(october), undefined);
+    assertThrows(
+      () => august.union(october),
+      Error,
+      "Cannot combine date ranges that have a gap between them.",
+    );
+  });
+
+  await t.step("results keep the inclusiveEnd setting", () => {
+    const exclusive = CalendarDateRange.create(D`2023-08-20`, D`2023-09-10`, {
+      inclusiveEnd: false,
+    });
+    assertEquals(exclusive.intersect(august)?.end.toString(), "2023-09-01");
+    assertEquals(august.intersect(exclusive)?.end.toString(), "2023-08-31");
+  });
+});
+
+Deno.test("CalendarDateRange can be iterated over", () => {
+  assertEquals(
+    [...R("2020-02-27", "2020-03-02")].map((d) => d.toString()),
+    ["2020-02-27", "2020-02-28", "2020-02-29", "2020-03-01", "2020-03-02"],
+  );
+});
+
+Deno.test("CalendarDateRange.splitByWeek()", async (t) => {
+  // August 1, 2023 is a Tuesday
+  const range = R("2023-08-01", "2023-08-20");
+  await t.step("weeks starting on Monday", () => {
+    assertEquals(range.splitByWeek().map((r) => r.toString()), [
+      "2023-08-01/2023-08-06",
+      "2023-08-07/2023-08-13",
+      "2023-08-14/2023-08-20",
+    ]);
+  });
+  await t.step("weeks starting on Sunday", () => {
+    assertEquals(
+      range.splitByWeek({ weekStartsOn: 6 }).map((r) => r.toString()),
+      [
+        "2023-08-01/2023-08-05",
+        "2023-08-06/2023-08-12",
+        "2023-08-13/2023-08-19",
+        "2023-08-20/2023-08-20",
+      ],
+    );
+  });
+  await t.step("invalid weekStartsOn", () => {
+    for (const weekStartsOn of [-1, 7, 1.5, NaN]) {
+      assertThrows(
+        () => range.splitByWeek({ weekStartsOn }),
+        Error,
+        `Invalid day of week (${weekStartsOn}).`,
+      );
+    }
+  });
+});
+
+Deno.test("CalendarDateRange.splitByMonth()", () => {
+  assertEquals(
+    R("2023-12-15", "2024-03-01").splitByMonth().map((r) => r.toString()),
+    [
+      "2023-12-15/2023-12-31",
+      "2024-01-01/2024-01-31",
+      "2024-02-01/2024-02-29",
+      "2024-03-01/2024-03-01",
+    ],
+  );
+});
+
+Deno.test("CalendarDateRange string conversion", async (t) => {
+  await t.step("toString() and toJSON()", () => {
+    const range = R("2023-08-01", "2023-08-31");
+    assertEquals(range.toString(), "2023-08-01/2023-08-31");
+    assertEquals(
+      JSON.stringify({ range }),
+      '{"range":"2023-08-01/2023-08-31"}',
+    );
+  });
+
+  await t.step("fromString()", () => {
+    const range = CalendarDateRange.fromString("2023-08-01/2023-08-31");
+    assertEquals(range.equals(R("2023-08-01", "2023-08-31")), true);
+    const exclusive = CalendarDateRange.fromString("2023-08-01/2023-08-31", {
+      inclusiveEnd: false,
+    });
+    assertEquals(exclusive.end.toString(), "2023-09-01");
+    assertThrows(() => CalendarDateRange.fromString("2023-08-01"));
+  });
+});
@@ -0,0 +1,238 @@
+import { CalendarDate, type WeekOptions } from "./CalendarDate.ts";
+
+/** Options for how a CalendarDateRange treats its end date */
+interface CalendarDateRangeOptions {
+  /**
+   * Is the end date part of the range? (default: true)
+   * e.g. with inclusiveEnd, 2023-08-01 to 2023-08-31 is the whole month of August.
+   * Without it, 2023-08-01 to 2023-09-01 is the whole month of August.
+   */
+  inclusiveEnd?: boolean;
+}
+
+/**
+ * An immutable range of consecutive calendar dates, e.g. "August 1 to August 31, 2023"
+ *
+ * Internally, the range is represented as a pair of CalendarDate values: the first day in the range, and the first day
+ * after the range. So checking containment, overlap, etc. is just a matter of comparing integers.
+ */
+class CalendarDateRange {
+  /** The internal value of the first date in the range */
+  readonly #start: number;
+  /** The internal value of the first date *after* the range (so the range is empty if #end === #start) */
+  readonly #end: number;
+  /** Should the "end" of this range be reported as the last date in the range, or the date after it? */
+  readonly #inclusiveEnd: boolean;
+
+  /**
+   * Construct a CalendarDateRange from a start date and an end date.
+   * e.g. CalendarDateRange.create(D`2023-08-01`, D`2023-08-31`) is the whole month of August.
+   * @param start The first date in the range
+   * @param end The last date in the range (or, if inclusiveEnd is false, the first date after the range)
+   */
+  public static create(
+    start: CalendarDate,
+    end: CalendarDate,
+    options: CalendarDateRangeOptions = {},
+  ): CalendarDateRange {
+    const inclusiveEnd = options.inclusiveEnd ?? true;
+    return new CalendarDateRange(
+      start.value,
+      end.value + (inclusiveEnd ? 1 : 0),
+      { inclusiveEnd },
+    );
+  }
+
+  /**
+   * Construct a CalendarDateRange from an ISO 8601 interval of two dates, "YYYY-MM-DD/YYYY-MM-DD".
+   * As is conventional for date intervals, the end date is inclusive.
+   * @param str An ISO 8601 interval string
+   */
+  public static fromString(
+    str: string,
+    options: CalendarDateRangeOptions = {},
+  ): CalendarDateRange {
+    const parts = str.split("/");
+    if (parts.length !== 2) {
+      throw new Error("Date range string not in YYYY-MM-DD/YYYY-MM-DD format");
+    }
+    return new CalendarDateRange(
+      CalendarDate.fromString(parts[0]).value,
+      CalendarDate.fromString(parts[1]).value + 1,
+      options,
+    );
+  }
+
+  /**
+   * Construct a CalendarDateRange using its internal representation.
+   * @param startValue The value of the first date in the range
+   * @param endValue The value of the first date *after* the range (always exclusive, regardless of the options)
+   */
+  constructor(
+    startValue: number,
+    endValue: number,
+    options: CalendarDateRangeOptions = {},
+  ) {
+    if (!Number.isInteger(startValue) || !Number.isInteger(endValue)) {
+      throw new Error(`Non-integer date value.`);
+    } else if (endValue < startValue) {
+      throw new Error(`Date range ends before it starts.`);
+    }
+    this.#start = startValue;
+    this.#end = endValue;
+    this.#inclusiveEnd = options.inclusiveEnd ?? true;
+  }
+
+  /** Get the first date in the range */
+  public get start(): CalendarDate {
+    return new CalendarDate(this.#start);
+  }
+
+  /**
+   * Get the end date of the range. By default, this is the last date in the range, but if this range was created with
+   * `inclusiveEnd: false`, this is the first date after the range.
+   *
+   * So for a range with `inclusiveEnd: false` that includes 9999-12-31, this throws an error, because the first date
+   * after the range is outside of the supported range of dates (unless CalendarDate.enableExtendedRange() was called).
+   */
+  public get end(): CalendarDate {
+    return new CalendarDate(this.#inclusiveEnd ? this.#end - 1 : this.#end);
+  }
+
+  /** Is the end date part of this range? */
+  public get inclusiveEnd(): boolean {
+    return this.#inclusiveEnd;
+  }
+
+  /** Get the number of days in this range */
+  public get length(): number {
+    return this.#end - this.#start;
+  }
+
+  /** Does this range include the given date (or all of the dates in the given range)? */
+  public contains(other: CalendarDate | CalendarDateRange): boolean {
+    if (other instanceof CalendarDateRange) {
+      return other.#start >= this.#start && other.#end <= this.#end;
+    }
+    const value = other.value;
+    return value >= this.#start && value < this.#end;
+  }
+
+  /** Do this range and the other range have at least one date in common? */
+  public overlaps(other: CalendarDateRange): boolean {
+    return this.#start < other.#end && other.#start < this.#end;
+  }
+
+  /**
+   * Get the range of dates that are in both this range and the other range, or undefined if there are no dates in
+   * common. The result uses this range's inclusiveEnd setting.
+   */
+  public intersect(other: CalendarDateRange): CalendarDateRange | undefined {
+    const start = Math.max(this.#start, other.#start);
+    const end = Math.min(this.#end, other.#end);
+    if (start >= end) {
+      return undefined;
+    }
+    return new CalendarDateRange(start, end, {
+      inclusiveEnd: this.#inclusiveEnd,
+    });
+  }
+
+  /**
+   * Get the range of dates that are in either this range or the other range. The two ranges must overlap or be
+   * adjacent, because the result has to be a single range without any gaps. The result uses this range's inclusiveEnd
+   * setting.
+   */
+  public union(other: CalendarDateRange): CalendarDateRange {
+    if (this.#start > other.#end || other.#start > this.#end) {
+      throw new Error(
+        `Cannot combine date ranges that have a gap between them.`,
+      );
+    }
+    return new CalendarDateRange(
+      Math.min(this.#start, other.#start),
+      Math.max(this.#end, other.#end),
+      { inclusiveEnd: this.#inclusiveEnd },
+    );
+  }
+
+  /**
+   * Split this range into weeks. The first and last ranges will be partial weeks if this range doesn't start and end on
+   * a week boundary.
+   * Weeks start on Monday unless you specify a different `weekStartsOn` day (0 = Monday, 6 = Sunday).
+   */
+  public splitByWeek(options: WeekOptions = {}): CalendarDateRange[] {
+    const weekStartsOn = options.weekStartsOn ?? 0;
+    if (
+      !Number.isInteger(weekStartsOn) || weekStartsOn < 0 || weekStartsOn > 6
+    ) {
+      throw new Error(`Invalid day of week (${weekStartsOn}).`);
+    }
+    const result: CalendarDateRange[] = [];
+    const rangeOptions = { inclusiveEnd: this.#inclusiveEnd };
+    for (let start = this.#start; start < this.#end;) {
+      const dayOfWeek = new CalendarDate(start).dayOfWeek;
+      const end = Math.min(
+        start + ((weekStartsOn - dayOfWeek + 6) % 7) + 1,
+        this.#end,
+      );
+      result.push(new CalendarDateRange(start, end, rangeOptions));
+      start = end;
+    }
+    return result;
+  }
+
+  /**
+   * Split this range into calendar months. The first and last ranges will be partial months if this range doesn't
+   * start and end on a month boundary.
+   */
+  public splitByMonth(): CalendarDateRange[] {
+    const result: CalendarDateRange[] = [];
+    const options = { inclusiveEnd: this.#inclusiveEnd };
+    for (let start = this.#start; start < this.#end;) {
+      const date = new CalendarDate(start);
+      const end = Math.min(
+        start + CalendarDate.daysInMonth(date.year, date.month) - date.day + 1,
+        this.#end,
+      );
+      result.push(new CalendarDateRange(start, end, options));
+      start = end;
+    }
+    return result;
+  }
+
+  /** Iterate over every date in this range, in order */
+  public *[Symbol.iterator](): IterableIterator<CalendarDate> {
+    for (let value = this.#start; value < this.#end; value++) {
+      yield new CalendarDate(value);
+    }
+  }
+
+  public equals(other: CalendarDateRange): boolean {
+    return this.#start === other.#start && this.#end === other.#end;
+  }
+
+  /**
+   * Get the range as an ISO 8601 interval string (e.g. "2023-08-01/2023-08-31").
+   * As is conventional for date intervals, the end date in the string is always inclusive.
+   */
+  public toString(): string {
+    return `${this.start.toString()}/${
+      new CalendarDate(this.#end - 1).toString()
+    }`;
+  }
+
+  /**
+   * JSON serialization - as an ISO 8601 interval string
+   */
+  public toJSON(): string {
+    return this.toString();
+  }
+
+  // Pretty print in Deno
+  [Symbol.for("Deno.customInspect")](): string {
+    return `CalendarDateRange {${this.toString()}}`;
+  }
+}
+
+export { CalendarDateRange, type CalendarDateRangeOptions };
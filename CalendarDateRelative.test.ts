@@ -0,0 +1,135 @@
+import { type CalendarDate, D } from "./CalendarDate.ts";
+import { relativeTo, toRelativeString } from "./CalendarDateRelative.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("relativeTo() and toRelativeString()", async (t) => {
+  const today = D`2024-03-15`;
+
+  await t.step("picks the largest full unit", () => {
+    // deno-fmt-ignore
+    const cases: [CalendarDate, string, number][] = [
+      [D`2024-03-15`, "day", 0],
+      [D`2024-03-16`, "day", 1],
+      [D`2024-03-09`, "day", -6],
+      [D`2024-03-08`, "week", -1],
+      [D`2024-04-05`, "week", 3],
+      [D`2024-04-14`, "week", 4],
+      [D`2024-04-15`, "month", 1],
+      [D`2024-02-15`, "month", -1],
+      [D`2023-03-16`, "month", -11],
+      [D`2023-03-15`, "year", -1],
+      [D`2034-03-14`, "year", 9],
+    ];
+    for (const [date, unit, value] of cases) {
+      assertEquals(relativeTo(date, today), { unit, value }, date.toString());
+    }
+    // Months are counted like addMonths(), so this is a full month:
+    assertEquals(relativeTo(D`2024-02-29`, D`2024-01-31`), {
+      unit: "month",
+      value: 1,
+    });
+  });
+
+  await t.step("units", () => {
+    const date = D`2024-05-20`;
+    assertEquals(relativeTo(date, today, { units: ["day"] }), {
+      unit: "day",
+      value: 66,
+    });
+    assertEquals(relativeTo(date, today, { units: ["week", "day"] }), {
+      unit: "week",
+      value: 9,
+    });
+    assertEquals(relativeTo(date, today, { units: ["year"] }), {
+      unit: "year",
+      value: 0,
+    });
+    assertThrows(
+      () => relativeTo(date, today, { units: [] }),
+      Error,
+      "At least one unit is required.",
+    );
+    assertThrows(
+      // @ts-expect-error Not a valid unit
+      () => relativeTo(date, today, { units: ["hour"] }),
+      Error,
+      'Invalid unit "hour".',
+    );
+  });
+
+  await t.step("toRelativeString()", () => {
+    const en = { locale: "en" };
+    assertEquals(toRelativeString(D`2024-03-15`, today, en), "today");
+    assertEquals(toRelativeString(D`2024-03-16`, today, en), "tomorrow");
+    assertEquals(toRelativeString(D`2024-03-14`, today, en), "yesterday");
+    assertEquals(toRelativeString(D`2024-03-12`, today, en), "3 days ago");
+    assertEquals(toRelativeString(D`2024-04-05`, today, en), "in 3 weeks");
+    assertEquals(toRelativeString(D`2024-03-22`, today, en), "next week");
+    assertEquals(toRelativeString(D`2024-01-01`, today, en), "2 months ago");
+    assertEquals(toRelativeString(D`2023-01-01`, today, en), "last year");
+    assertEquals(
+      toRelativeString(D`2024-03-16`, today, { ...en, numeric: "always" }),
+      "in 1 day",
+    );
+    assertEquals(
+      toRelativeString(D`2024-05-20`, today, { ...en, units: ["day"] }),
+      "in 66 days",
+    );
+    assertEquals(
+      toRelativeString(D`2024-03-14`, today, { locale: "fr" }),
+      "hier",
+    );
+    assertEquals(
+      toRelativeString(D`2024-03-12`, today, { locale: "de" }),
+      "vor 3 Tagen",
+    );
+  });
+
+  await t.step(
+    "only says next/last month, week or year for the next/last calendar one",
+    () => {
+      const en = { locale: "en" };
+      // One full month, but two calendar months later:
+      assertEquals(
+        toRelativeString(D`2024-03-01`, D`2024-01-31`, en),
+        "in 1 month",
+      );
+      assertEquals(
+        toRelativeString(D`2024-02-29`, D`2024-01-31`, en),
+        "next month",
+      );
+      assertEquals(
+        toRelativeString(D`2024-01-31`, D`2024-03-01`, en),
+        "1 month ago",
+      );
+      // 2024-01-07 is a Sunday, so with weeks starting on Monday, the 19th is in the week after next:
+      assertEquals(
+        toRelativeString(D`2024-01-19`, D`2024-01-07`, en),
+        "in 1 week",
+      );
+      assertEquals(
+        toRelativeString(D`2024-01-14`, D`2024-01-07`, en),
+        "next week",
+      );
+      assertEquals(
+        toRelativeString(D`2024-01-19`, D`2024-01-07`, {
+          ...en,
+          weekStartsOn: 6,
+        }),
+        "next week",
+      );
+      assertEquals(
+        toRelativeString(D`2026-01-01`, D`2024-12-31`, en),
+        "in 1 year",
+      );
+      assertEquals(
+        toRelativeString(D`2025-12-31`, D`2024-12-31`, en),
+        "next year",
+      );
+      assertEquals(
+        toRelativeString(D`2024-12-31`, D`2026-01-01`, en),
+        "1 year ago",
+      );
+    },
+  );
+});
@@ -0,0 +1,130 @@
+import type { CalendarDate, WeekOptions } from "./CalendarDate.ts";
+
+/** A unit of time that relativeTo() and toRelativeString() can describe a date in */
+type RelativeTimeUnit = "year" | "month" | "week" | "day";
+
+/** How one date relates to another, from relativeTo(), e.g. { unit: "week", value: -2 } for two weeks earlier */
+interface RelativeTime {
+  unit: RelativeTimeUnit;
+  /** How many of the unit later the date is (negative if it's earlier), counting only full units */
+  value: number;
+}
+
+/** Options for relativeTo() */
+interface RelativeOptions {
+  /** Which units can be used (default: all of them), e.g. ["day"] to always give a number of days */
+  units?: readonly RelativeTimeUnit[];
+}
+
+/** Options for toRelativeString() */
+interface RelativeStringOptions extends RelativeOptions, WeekOptions {
+  /** The locale to use, e.g. "fr" (default: the runtime's default locale) */
+  locale?: string;
+  /**
+   * "auto" (the default) to use phrases like "yesterday" and "next week" where the locale has them, or "always" to
+   * always use numbers, like "1 day ago" and "in 1 week"
+   */
+  numeric?: "always" | "auto";
+}
+
+/** The units that relativeTo() can use, from largest to smallest */
+const RELATIVE_TIME_UNITS: readonly RelativeTimeUnit[] = Object.freeze([
+  "year",
+  "month",
+  "week",
+  "day",
+]);
+
+/** Cache of the Intl.RelativeTimeFormat for each locale and numeric option that toRelativeString() has used */
+const relativeTimeFormats = new Map<string, Intl.RelativeTimeFormat>();
+
+/** Get an Intl.RelativeTimeFormat for some locale (or the default locale, if undefined) */
+const getRelativeTimeFormat = (
+  locale: string | undefined,
+  numeric: "always" | "auto",
+): Intl.RelativeTimeFormat => {
+  const key = `${locale ?? ""}/${numeric}`;
+  let format = relativeTimeFormats.get(key);
+  if (format === undefined) {
+    format = new Intl.RelativeTimeFormat(locale, { numeric });
+    relativeTimeFormats.set(key, format);
+  }
+  return format;
+};
+
+/**
+ * Describe a date relative to the given base date (usually today), using the largest unit that it's at least one full
+ * unit away in: years, then months, weeks, and days. e.g. { unit: "day", value: -3 } for three days earlier, or
+ * { unit: "month", value: 1 } for Mar. 31 compared to Feb. 28. Months and years are counted the same way that
+ * addMonths() counts them (see fullMonthsSince()). If it's the same date, this gives a value of 0 in the smallest unit.
+ *
+ * To limit which units can be used, pass `units`, e.g. `{ units: ["week", "day"] }`.
+ */
+function relativeTo(
+  date: CalendarDate,
+  base: CalendarDate,
+  options: RelativeOptions = {},
+): RelativeTime {
+  const units = options.units ?? RELATIVE_TIME_UNITS;
+  for (const unit of units) {
+    if (!RELATIVE_TIME_UNITS.includes(unit)) {
+      throw new Error(`Invalid unit "${unit}".`);
+    }
+  }
+  let result: RelativeTime | undefined;
+  let months: number | undefined;
+  for (const unit of RELATIVE_TIME_UNITS) {
+    if (!units.includes(unit)) continue;
+    let value: number;
+    if (unit === "day") {
+      value = date.daysSince(base);
+    } else if (unit === "week") {
+      value = date.fullWeeksSince(base);
+    } else {
+      months ??= date.fullMonthsSince(base);
+      value = unit === "year" ? months / 12 | 0 : months;
+    }
+    result = { unit, value };
+    if (value !== 0) break;
+  }
+  if (result === undefined) {
+    throw new Error(`At least one unit is required.`);
+  }
+  return result;
+}
+
+/**
+ * Describe a date relative to the given base date (usually today) in words, using Intl.RelativeTimeFormat, e.g.
+ * "yesterday", "in 3 weeks" or "2 months ago". The unit is chosen by relativeTo().
+ *
+ * Phrases like "next month" and "last week" mean the next or previous calendar month or week, so they're only used
+ * when that's where the date is. e.g. Mar. 1 is one full month after Jan. 31, but it's two calendar months later, so
+ * it's "in 1 month", not "next month". Weeks start on Monday unless you specify a different `weekStartsOn` day.
+ * Intl.RelativeTimeFormat doesn't have phrases for days of the week, so this never gives e.g. "last Tuesday".
+ */
+function toRelativeString(
+  date: CalendarDate,
+  base: CalendarDate,
+  options: RelativeStringOptions = {},
+): string {
+  const { unit, value } = relativeTo(date, base, options);
+  let numeric = options.numeric ?? "auto";
+  if (numeric === "auto" && unit !== "day" && (value === 1 || value === -1)) {
+    const calendarValue = unit === "year"
+      ? date.year - base.year
+      : unit === "month"
+      ? (date.year - base.year) * 12 + date.month - base.month
+      : date.startOfWeek(options).fullWeeksSince(base.startOfWeek(options));
+    if (calendarValue !== value) numeric = "always";
+  }
+  return getRelativeTimeFormat(options.locale, numeric).format(value, unit);
+}
+
+export {
+  type RelativeOptions,
+  type RelativeStringOptions,
+  type RelativeTime,
+  type RelativeTimeUnit,
+  relativeTo,
+  toRelativeString,
+};
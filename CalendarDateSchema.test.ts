@@ -0,0 +1,189 @@
+import { CalendarDate, D } from "./CalendarDate.ts";
+import {
+  calendarDateJsonSchema,
+  createReviver,
+  isJsonSchemaDate,
+  jsonSchemaDatePaths,
+  valibotCalendarDate,
+  zodCalendarDate,
+} from "./CalendarDateSchema.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+import { z } from "npm:zod@3.25.76";
+import * as v from "npm:valibot@1.1.0";
+
+const json = JSON.stringify({
+  name: "Order 1",
+  created: D`2024-02-29`,
+  items: [
+    { sku: "A1", due: D`2024-03-15` },
+    { sku: "B2", due: null },
+  ],
+  notes: { "2024-01-01": "2024-01-02" },
+});
+
+Deno.test("createReviver()", async (t) => {
+  await t.step("by key", () => {
+    const order = JSON.parse(json, createReviver({ keys: ["created", "due"] }));
+    assertEquals(order.created instanceof CalendarDate, true);
+    assertEquals(order.created.toString(), "2024-02-29");
+    assertEquals(order.items[0].due.toString(), "2024-03-15");
+    assertEquals(order.items[1].due, null);
+    assertEquals(order.notes, { "2024-01-01": "2024-01-02" });
+    assertEquals(order.name, "Order 1");
+  });
+
+  await t.step("by path", () => {
+    const order = JSON.parse(
+      json,
+      createReviver({ paths: ["created", "items.*.due", "missing.date"] }),
+    );
+    assertEquals(order.created.toString(), "2024-02-29");
+    assertEquals(order.items[0].due.toString(), "2024-03-15");
+    assertEquals(order.items[1].due, null);
+    assertEquals(
+      JSON.parse(json, createReviver({ paths: ["items.0.due"] })).items[0].due
+        .toString(),
+      "2024-03-15",
+    );
+    assertEquals(
+      JSON.parse(json, createReviver({ paths: ["notes.*"] })).notes[
+        "2024-01-01"
+      ].toString(),
+      "2024-01-02",
+    );
+  });
+
+  await t.step("any date string", () => {
+    const order = JSON.parse(
+      JSON.stringify({ ...JSON.parse(json), invalid: "2023-02-29" }),
+      createReviver({ allDateStrings: true }),
+    );
+    assertEquals(order.created.toString(), "2024-02-29");
+    assertEquals(order.items[0].due.toString(), "2024-03-15");
+    assertEquals(order.notes["2024-01-01"].toString(), "2024-01-02");
+    assertEquals(order.name, "Order 1");
+    assertEquals(order.invalid, "2023-02-29"); // Not a valid date
+  });
+
+  await t.step("round trip", () => {
+    const data = { dates: [D`0001-01-01`, D`9999-12-31`] };
+    assertEquals(
+      JSON.stringify(
+        JSON.parse(JSON.stringify(data), createReviver({ keys: ["dates"] })),
+      ),
+      JSON.stringify(data),
+    );
+    const revived = JSON.parse(
+      JSON.stringify(data),
+      createReviver({ paths: ["dates.*"] }),
+    );
+    assertEquals(revived.dates[1] instanceof CalendarDate, true);
+  });
+
+  await t.step("invalid dates", () => {
+    assertThrows(
+      () =>
+        JSON.parse('{"due": "2023-02-29"}', createReviver({ keys: ["due"] })),
+      Error,
+      'Invalid date "2023-02-29": Day out of range. (at due)',
+    );
+    assertThrows(
+      () =>
+        JSON.parse(
+          '{"items": [{"due": "tomorrow"}]}',
+          createReviver({ paths: ["items.*.due"] }),
+        ),
+      Error,
+      "(at items.0.due)",
+    );
+  });
+});
+
+Deno.test("JSON Schema", async (t) => {
+  await t.step("date format", () => {
+    assertEquals(calendarDateJsonSchema, { type: "string", format: "date" });
+    assertEquals(isJsonSchemaDate("2024-02-29"), true);
+    assertEquals(isJsonSchemaDate("2023-02-29"), false);
+    assertEquals(isJsonSchemaDate("20240229"), false);
+    assertEquals(isJsonSchemaDate("2024-W09-4"), false);
+    assertEquals(isJsonSchemaDate("0000-01-01"), false);
+  });
+
+  await t.step("jsonSchemaDatePaths()", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        created: calendarDateJsonSchema,
+        items: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              due: { anyOf: [calendarDateJsonSchema, { type: "null" }] },
+            },
+          },
+        },
+        range: {
+          type: "array",
+          prefixItems: [calendarDateJsonSchema, calendarDateJsonSchema],
+        },
+        notes: { type: "object", additionalProperties: calendarDateJsonSchema },
+      },
+    } as const;
+    const paths = jsonSchemaDatePaths(schema);
+    assertEquals(paths, [
+      "created",
+      "items.*.due",
+      "range.0",
+      "range.1",
+      "notes.*",
+    ]);
+    const order = JSON.parse(json, createReviver({ paths }));
+    assertEquals(order.created.toString(), "2024-02-29");
+    assertEquals(order.items[0].due.toString(), "2024-03-15");
+    assertEquals(order.notes["2024-01-01"].toString(), "2024-01-02");
+  });
+});
+
+Deno.test("Zod", () => {
+  const schema = z.object({
+    name: z.string(),
+    date: z.string().transform(zodCalendarDate),
+  });
+  const result = schema.parse({ name: "Leap day", date: "2024-02-29" });
+  const date: CalendarDate = result.date;
+  assertEquals(date.toString(), "2024-02-29");
+  const failure = schema.safeParse({ name: "Leap day", date: "2023-02-29" });
+  assertEquals(failure.success, false);
+  assertEquals(
+    failure.error?.issues.map(({ path, message }) => ({ path, message })),
+    [{
+      path: ["date"],
+      message: 'Invalid date "2023-02-29": Day out of range.',
+    }],
+  );
+  assertEquals(
+    schema.safeParse({ name: "", date: "2024-1-01" }).error?.issues[0].message,
+    'Invalid date: Expected 2-digit month. (at offset 5 in "2024-1-01")',
+  );
+});
+
+Deno.test("Valibot", () => {
+  const schema = v.object({
+    name: v.string(),
+    date: v.pipe(v.string(), v.rawTransform(valibotCalendarDate)),
+  });
+  const result = v.parse(schema, { name: "Leap day", date: "2024-02-29" });
+  const date: CalendarDate = result.date;
+  assertEquals(date.toString(), "2024-02-29");
+  const failure = v.safeParse(schema, { name: "Leap day", date: "2023-02-29" });
+  assertEquals(failure.success, false);
+  assertEquals(
+    failure.issues?.map((issue) => ({
+      path: v.getDotPath(issue),
+      message: issue.message,
+    })),
+    [{ path: "date", message: 'Invalid date "2023-02-29": Day out of range.' }],
+  );
+});
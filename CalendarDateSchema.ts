@@ -0,0 +1,223 @@
+import { CalendarDate, CalendarDateParseError } from "./CalendarDate.ts";
+
+/** Options for createReviver(). Dates are revived wherever any of the options match. */
+interface ReviverOptions {
+  /** Revive the string values of properties with any of these names, at any depth */
+  keys?: Iterable<string>;
+  /**
+   * Revive the string values at these paths, e.g. "order.shipDate" or "items.*.dueDate". A path is a list of property
+   * names and array indexes separated by dots, and "*" matches any property name or array index.
+   */
+  paths?: Iterable<string>;
+  /** Revive any string in "YYYY-MM-DD" format that is a valid date, wherever it is */
+  allDateStrings?: boolean;
+}
+
+/** A function to pass to JSON.parse() as its reviver */
+type Reviver = (key: string, value: unknown) => unknown;
+
+/**
+ * A minimal JSON Schema, with just the keywords that jsonSchemaDatePaths() looks at. Any JSON Schema object can be
+ * used.
+ */
+interface JsonSchema {
+  type?: string | readonly string[];
+  format?: string;
+  properties?: Readonly<Record<string, JsonSchema | boolean>>;
+  additionalProperties?: JsonSchema | boolean;
+  items?: JsonSchema | readonly (JsonSchema | boolean)[] | boolean;
+  prefixItems?: readonly (JsonSchema | boolean)[];
+  allOf?: readonly (JsonSchema | boolean)[];
+  anyOf?: readonly (JsonSchema | boolean)[];
+  oneOf?: readonly (JsonSchema | boolean)[];
+}
+
+/** Matches "YYYY-MM-DD", the JSON representation of a CalendarDate (and the "full-date" format of RFC 3339) */
+const DATE_STRING_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Get an error message for a string that CalendarDate.fromString() couldn't parse */
+const invalidDateMessage = (str: string, err: unknown): string =>
+  err instanceof CalendarDateParseError
+    ? `Invalid date: ${err.message}`
+    : `Invalid date "${str}": ${(err as Error).message}`;
+
+/** Parse a date found in some JSON data, with a helpful error message if it's invalid */
+const parseAt = (str: string, path: string): CalendarDate => {
+  try {
+    return CalendarDate.fromString(str);
+  } catch (err) {
+    throw new Error(`${invalidDateMessage(str, err)} (at ${path})`);
+  }
+};
+
+/**
+ * Create a reviver for JSON.parse() that turns date strings back into CalendarDate objects (the opposite of
+ * CalendarDate's toJSON()), e.g. `JSON.parse(text, createReviver({ keys: ["birthday"] }))`.
+ *
+ * Strings that are matched by keys or paths must be valid dates (or JSON.parse() will throw an error), but other
+ * values there, like null, are left as-is. With allDateStrings, strings that aren't valid dates are left as strings.
+ */
+function createReviver(options: ReviverOptions): Reviver {
+  const keys = new Set(options.keys);
+  const paths = Array.from(options.paths ?? [], (path) => path.split("."));
+  const allDateStrings = options.allDateStrings ?? false;
+
+  /** Revive the dates at the given path (from segment i onwards) in a parsed object or array */
+  const reviveAtPath = (
+    holder: unknown,
+    path: readonly string[],
+    i: number,
+    prefix: string,
+  ) => {
+    if (typeof holder !== "object" || holder === null) return;
+    const record = holder as Record<string, unknown>;
+    const matches = path[i] === "*" ? Object.keys(record) : [path[i]];
+    for (const key of matches) {
+      if (!Object.hasOwn(record, key)) continue;
+      const value = record[key];
+      if (i < path.length - 1) {
+        reviveAtPath(value, path, i + 1, `${prefix}${key}.`);
+      } else if (typeof value === "string") {
+        record[key] = parseAt(value, prefix + key);
+      }
+    }
+  };
+
+  return (key, value) => {
+    if (typeof value === "string") {
+      if (keys.has(key)) {
+        return parseAt(value, key);
+      } else if (allDateStrings && DATE_STRING_REGEX.test(value)) {
+        try {
+          return CalendarDate.fromString(value);
+        } catch {
+          return value;
+        }
+      }
+    } else if (key === "" && paths.length > 0) {
+      // The reviver doesn't know the path to each value, so revive all of the paths once we've reached the root:
+      for (const path of paths) {
+        reviveAtPath(value, path, 0, "");
+      }
+    }
+    return value;
+  };
+}
+
+/** A JSON Schema for a CalendarDate, which is represented in JSON as a "YYYY-MM-DD" string */
+const calendarDateJsonSchema = { type: "string", format: "date" } as const;
+
+/**
+ * Check if a string is in the JSON Schema "date" format (an RFC 3339 "full-date", like "2015-01-25") and is a valid
+ * date that CalendarDate supports. This can be used as the "date" format of a JSON Schema validator, e.g.
+ * `ajv.addFormat("date", isJsonSchemaDate)`.
+ */
+function isJsonSchemaDate(str: string): boolean {
+  if (!DATE_STRING_REGEX.test(str)) return false;
+  try {
+    CalendarDate.fromString(str);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the paths of all of the dates (strings with format "date") in a JSON Schema, for use with createReviver(), e.g.
+ * `JSON.parse(text, createReviver({ paths: jsonSchemaDatePaths(schema) }))`. This follows nested properties, items,
+ * additionalProperties, allOf, anyOf and oneOf, but not references ($ref).
+ */
+function jsonSchemaDatePaths(schema: JsonSchema): string[] {
+  const paths = new Set<string>();
+  const visit = (schema: JsonSchema | boolean | undefined, path: string[]) => {
+    if (typeof schema !== "object") return;
+    if (schema.format === "date") {
+      paths.add(path.join("."));
+    }
+    for (
+      const [key, propertySchema] of Object.entries(schema.properties ?? {})
+    ) {
+      visit(propertySchema, [...path, key]);
+    }
+    if (typeof schema.additionalProperties === "object") {
+      visit(schema.additionalProperties, [...path, "*"]);
+    }
+    if (Array.isArray(schema.items)) {
+      // An older form of prefixItems
+      schema.items.forEach((itemSchema, i) =>
+        visit(itemSchema, [...path, String(i)])
+      );
+    } else {
+      visit(schema.items as JsonSchema | boolean | undefined, [...path, "*"]);
+    }
+    schema.prefixItems?.forEach((itemSchema, i) =>
+      visit(itemSchema, [...path, String(i)])
+    );
+    for (
+      const subschema of [
+        ...schema.allOf ?? [],
+        ...schema.anyOf ?? [],
+        ...schema.oneOf ?? [],
+      ]
+    ) {
+      visit(subschema, path);
+    }
+  };
+  visit(schema, []);
+  return [...paths];
+}
+
+/**
+ * A Zod transform that parses a string into a CalendarDate, e.g. `z.string().transform(zodCalendarDate)`. Invalid
+ * dates are reported as Zod issues, with the reason from CalendarDate.fromString(). (To accept CalendarDate objects
+ * rather than strings, use `z.instanceof(CalendarDate)`.)
+ */
+function zodCalendarDate(
+  value: string,
+  context: { addIssue(issue: { code: "custom"; message: string }): void },
+): CalendarDate {
+  try {
+    return CalendarDate.fromString(value);
+  } catch (err) {
+    context.addIssue({
+      code: "custom",
+      message: invalidDateMessage(value, err),
+    });
+    // Zod ignores the result once there's an issue (this is what z.NEVER is):
+    return undefined as never;
+  }
+}
+
+/**
+ * A Valibot transformation that parses a string into a CalendarDate, e.g.
+ * `v.pipe(v.string(), v.rawTransform(valibotCalendarDate))`. Invalid dates are reported as Valibot issues, with the
+ * reason from CalendarDate.fromString(). (To accept CalendarDate objects rather than strings, use
+ * `v.instance(CalendarDate)`.)
+ */
+function valibotCalendarDate(
+  context: {
+    dataset: { value: string };
+    addIssue(info: { message: string }): void;
+    NEVER: never;
+  },
+): CalendarDate {
+  const value = context.dataset.value;
+  try {
+    return CalendarDate.fromString(value);
+  } catch (err) {
+    context.addIssue({ message: invalidDateMessage(value, err) });
+    return context.NEVER;
+  }
+}
+
+export {
+  calendarDateJsonSchema,
+  createReviver,
+  isJsonSchemaDate,
+  type JsonSchema,
+  jsonSchemaDatePaths,
+  type Reviver,
+  type ReviverOptions,
+  valibotCalendarDate,
+  zodCalendarDate,
+};
@@ -0,0 +1,122 @@
+import { CalendarDate, D } from "./CalendarDate.ts";
+import {
+  fromPlainDateTime,
+  fromPlainMonthDay,
+  fromPlainYearMonth,
+  fromZonedDateTime,
+  toPlainDateTime,
+  toPlainMonthDay,
+  toPlainYearMonth,
+  toZonedDateTime,
+} from "./CalendarDateTemporal.ts";
+import { toEpochMsAtStartOfDay } from "./CalendarDateTimeZone.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test({
+  name: "Temporal conversions",
+  ignore: typeof Temporal === "undefined",
+  fn: async (t) => {
+    await t.step("PlainDateTime", () => {
+      assertEquals(
+        toPlainDateTime(D`2024-08-15`).toString(),
+        "2024-08-15T00:00:00",
+      );
+      assertEquals(
+        toPlainDateTime(D`2024-08-15`, "13:45").toString(),
+        "2024-08-15T13:45:00",
+      );
+      assertEquals(
+        fromPlainDateTime(
+          Temporal.PlainDateTime.from("2024-08-15T23:59:59"),
+        ).toString(),
+        "2024-08-15",
+      );
+    });
+
+    await t.step("ZonedDateTime", () => {
+      assertEquals(
+        toZonedDateTime(D`2024-08-15`, "Asia/Tokyo").toString(),
+        "2024-08-15T00:00:00+09:00[Asia/Tokyo]",
+      );
+      assertEquals(
+        toZonedDateTime(D`2024-08-15`, "Asia/Tokyo", { hour: 9 }).toString(),
+        "2024-08-15T09:00:00+09:00[Asia/Tokyo]",
+      );
+      // Midnight was skipped in Santiago on this day:
+      assertEquals(
+        toZonedDateTime(D`2024-09-08`, "America/Santiago").epochMilliseconds,
+        toEpochMsAtStartOfDay(D`2024-09-08`, "America/Santiago"),
+      );
+      const zdt = Temporal.ZonedDateTime.from(
+        "2024-01-01T20:00:00-05:00[America/New_York]",
+      );
+      assertEquals(
+        fromZonedDateTime(zdt).toString(),
+        "2024-01-01",
+      );
+      assertEquals(
+        fromZonedDateTime(zdt, "Asia/Tokyo").toString(),
+        "2024-01-02",
+      );
+    });
+
+    await t.step("PlainYearMonth and PlainMonthDay", () => {
+      assertEquals(toPlainYearMonth(D`2024-02-29`).toString(), "2024-02");
+      assertEquals(toPlainMonthDay(D`2024-02-29`).toString(), "02-29");
+      const yearMonth = Temporal.PlainYearMonth.from("2024-02");
+      assertEquals(
+        fromPlainYearMonth(yearMonth).toString(),
+        "2024-02-01",
+      );
+      assertEquals(
+        fromPlainYearMonth(yearMonth, 29).toString(),
+        "2024-02-29",
+      );
+      const monthDay = Temporal.PlainMonthDay.from("--02-29");
+      assertEquals(
+        fromPlainMonthDay(monthDay, 2024).toString(),
+        "2024-02-29",
+      );
+      assertThrows(
+        () => fromPlainMonthDay(monthDay, 2023),
+        Error,
+        "Day out of range.",
+      );
+    });
+
+    await t.step("rejects other calendars", () => {
+      const hebrew = Temporal.PlainDate.from("2024-01-15[u-ca=hebrew]");
+      assertThrows(
+        () => CalendarDate.fromPlainDate(hebrew),
+        Error,
+        'Unsupported calendar "hebrew".',
+      );
+      assertEquals(
+        CalendarDate.fromPlainDate(hebrew.withCalendar("iso8601")).toString(),
+        "2024-01-15",
+      );
+      assertThrows(
+        () => fromPlainDateTime(hebrew.toPlainDateTime()),
+        Error,
+        'Unsupported calendar "hebrew".',
+      );
+      assertThrows(
+        () => fromZonedDateTime(hebrew.toZonedDateTime("UTC")),
+        Error,
+        'Unsupported calendar "hebrew".',
+      );
+      assertThrows(
+        () =>
+          fromPlainYearMonth(
+            Temporal.PlainYearMonth.from({
+              year: 5784,
+              month: 5,
+              calendar: "hebrew",
+            }),
+          ),
+        Error,
+        'Unsupported calendar "hebrew".',
+      );
+    });
+  },
+});
@@ -0,0 +1,87 @@
+import { CalendarDate } from "./CalendarDate.ts";
+
+/** Get the date part of a Temporal.PlainDateTime, which must use the ISO 8601 calendar */
+function fromPlainDateTime(pdt: Temporal.PlainDateTime): CalendarDate {
+  return CalendarDate.fromPlainDate(pdt.toPlainDate());
+}
+
+/**
+ * Get the date of a Temporal.ZonedDateTime, which must use the ISO 8601 calendar. This is the date in the
+ * ZonedDateTime's own time zone, unless you specify a different time zone.
+ */
+function fromZonedDateTime(
+  zdt: Temporal.ZonedDateTime,
+  timeZone?: string,
+): CalendarDate {
+  const zoned = timeZone === undefined ? zdt : zdt.withTimeZone(timeZone);
+  return CalendarDate.fromPlainDate(zoned.toPlainDate());
+}
+
+/**
+ * Get a date in the given Temporal.PlainYearMonth, which must use the ISO 8601 calendar.
+ * @param day The day of the month (default: 1)
+ */
+function fromPlainYearMonth(
+  pym: Temporal.PlainYearMonth,
+  day = 1,
+): CalendarDate {
+  const firstDay = CalendarDate.fromPlainDate(pym.toPlainDate({ day: 1 }));
+  return CalendarDate.create(firstDay.year, firstDay.month, day);
+}
+
+/**
+ * Get the date of a Temporal.PlainMonthDay (which must use the ISO 8601 calendar) in the given year. Throws an error
+ * for February 29 if the year isn't a leap year.
+ */
+function fromPlainMonthDay(
+  pmd: Temporal.PlainMonthDay,
+  year: number,
+): CalendarDate {
+  // (2000 is a leap year, so this is the same month and day, even for February 29)
+  const monthDay = CalendarDate.fromPlainDate(pmd.toPlainDate({ year: 2000 }));
+  return CalendarDate.create(year, monthDay.month, monthDay.day);
+}
+
+/** Get a date at the given time (default: midnight) as a Temporal.PlainDateTime */
+function toPlainDateTime(
+  date: CalendarDate,
+  time?: Temporal.PlainTimeLike,
+): Temporal.PlainDateTime {
+  return date.toPlainDate().toPlainDateTime(time);
+}
+
+/**
+ * Get a date at the given time in the given time zone, as a Temporal.ZonedDateTime. If no time is given, this is the
+ * start of the day, which is usually midnight but may be later if midnight was skipped (see toEpochMsAtStartOfDay()
+ * in the "time-zone" module).
+ */
+function toZonedDateTime(
+  date: CalendarDate,
+  timeZone: string,
+  time?: Temporal.PlainTimeLike,
+): Temporal.ZonedDateTime {
+  return date.toPlainDate().toZonedDateTime(
+    time === undefined ? { timeZone } : { timeZone, plainTime: time },
+  );
+}
+
+/** Get the year and month of a date as a Temporal.PlainYearMonth */
+function toPlainYearMonth(date: CalendarDate): Temporal.PlainYearMonth {
+  return new Temporal.PlainYearMonth(date.year, date.month);
+}
+
+/** Get the month and day of a date as a Temporal.PlainMonthDay */
+function toPlainMonthDay(date: CalendarDate): Temporal.PlainMonthDay {
+  return new Temporal.PlainMonthDay(date.month, date.day);
+}
+
+export {
+  fromPlainDateTime,
+  fromPlainMonthDay,
+  fromPlainYearMonth,
+  fromZonedDateTime,
+  toPlainDateTime,
+  toPlainMonthDay,
+  toPlainYearMonth,
+  toZonedDateTime,
+};
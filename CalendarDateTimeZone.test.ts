@@ -0,0 +1,154 @@
+import { D } from "./CalendarDate.ts";
+import {
+  fromEpochMs,
+  todayInTimeZone,
+  toEpochMsAtStartOfDay,
+} from "./CalendarDateTimeZone.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("todayInTimeZone()", () => {
+  const jsDate = new Date();
+  const calDate = todayInTimeZone("UTC");
+  assertEquals(calDate.year, jsDate.getUTCFullYear());
+  assertEquals(calDate.month, jsDate.getUTCMonth() + 1);
+  assertEquals(calDate.day, jsDate.getUTCDate());
+  // Kiribati is UTC+14 and Niue is UTC-11, so it's always one or two days later in Kiribati:
+  const difference = todayInTimeZone("Pacific/Kiritimati").value -
+    todayInTimeZone("Pacific/Niue").value;
+  assertEquals(difference === 1 || difference === 2, true);
+});
+
+Deno.test("time zones", async (t) => {
+  await t.step("fromEpochMs()", () => {
+    assertEquals(fromEpochMs(0).toString(), "1970-01-01");
+    assertEquals(fromEpochMs(-1).toString(), "1969-12-31");
+    assertEquals(
+      fromEpochMs(D`2024-08-15`.toEpochMs() + 86399_999)
+        .toString(),
+      "2024-08-15",
+    );
+    // Midnight in Tokyo (UTC+9):
+    const ms = Date.UTC(2024, 0, 1, 15);
+    assertEquals(
+      fromEpochMs(ms, "Asia/Tokyo").toString(),
+      "2024-01-02",
+    );
+    assertEquals(
+      fromEpochMs(ms - 1, "Asia/Tokyo").toString(),
+      "2024-01-01",
+    );
+    assertEquals(fromEpochMs(ms, "UTC").toString(), "2024-01-01");
+    assertEquals(
+      fromEpochMs(ms, "America/Denver").toString(),
+      "2024-01-01",
+    );
+    // Just before daylight saving time starts in Denver (UTC-7):
+    assertEquals(
+      fromEpochMs(Date.UTC(2024, 2, 10, 5), "America/Denver")
+        .toString(),
+      "2024-03-09",
+    );
+    // Time zones with offsets that aren't whole hours:
+    assertEquals(
+      fromEpochMs(Date.UTC(2024, 0, 1, 18, 30), "Asia/Kolkata")
+        .toString(),
+      "2024-01-02",
+    );
+    assertEquals(
+      fromEpochMs(Date.UTC(2024, 0, 1, 18, 29), "Asia/Kolkata")
+        .toString(),
+      "2024-01-01",
+    );
+  });
+
+  await t.step("toEpochMsAtStartOfDay()", () => {
+    assertEquals(
+      toEpochMsAtStartOfDay(D`2024-01-02`, "UTC"),
+      Date.UTC(2024, 0, 2),
+    );
+    assertEquals(
+      toEpochMsAtStartOfDay(D`2024-01-02`, "Asia/Tokyo"),
+      Date.UTC(2024, 0, 1, 15),
+    );
+    assertEquals(
+      toEpochMsAtStartOfDay(D`2024-01-02`, "Asia/Kolkata"),
+      Date.UTC(2024, 0, 1, 18, 30),
+    );
+    // Days when daylight saving time starts and ends in New York, at 2:00 AM:
+    assertEquals(
+      toEpochMsAtStartOfDay(D`2024-03-10`, "America/New_York"),
+      Date.UTC(2024, 2, 10, 5),
+    );
+    assertEquals(
+      toEpochMsAtStartOfDay(D`2024-03-11`, "America/New_York"),
+      Date.UTC(2024, 2, 11, 4),
+    );
+    assertEquals(
+      toEpochMsAtStartOfDay(D`2024-11-03`, "America/New_York"),
+      Date.UTC(2024, 10, 3, 4),
+    );
+    assertEquals(
+      toEpochMsAtStartOfDay(D`2024-11-04`, "America/New_York"),
+      Date.UTC(2024, 10, 4, 5),
+    );
+    // In Santiago and Havana, daylight saving time starts at midnight, so these days start at 1:00 AM:
+    assertEquals(
+      toEpochMsAtStartOfDay(D`2024-09-08`, "America/Santiago"),
+      Date.UTC(2024, 8, 8, 4),
+    );
+    assertEquals(
+      toEpochMsAtStartOfDay(D`2024-03-10`, "America/Havana"),
+      Date.UTC(2024, 2, 10, 5),
+    );
+    // In Asunción, daylight saving time ended at midnight, so the clocks went back from 00:00 to 23:00 the day before:
+    assertEquals(
+      toEpochMsAtStartOfDay(D`2024-03-24`, "America/Asuncion"),
+      Date.UTC(2024, 2, 24, 4),
+    );
+  });
+
+  await t.step("round trip", () => {
+    for (
+      const timeZone of [
+        "America/Santiago",
+        "Europe/London",
+        "Australia/Lord_Howe",
+        "Pacific/Chatham",
+      ]
+    ) {
+      for (
+        let date = D`2024-01-01`;
+        date.year === 2024;
+        date = date.addDays(7)
+      ) {
+        const start = toEpochMsAtStartOfDay(date, timeZone);
+        assertEquals(
+          fromEpochMs(start, timeZone).toString(),
+          date.toString(),
+        );
+        assertEquals(
+          fromEpochMs(start - 1, timeZone).toString(),
+          date.addDays(-1).toString(),
+        );
+      }
+    }
+  });
+
+  await t.step("errors", () => {
+    assertThrows(
+      () => fromEpochMs(0, "Mars/Olympus_Mons"),
+      Error,
+      'Invalid time zone "Mars/Olympus_Mons".',
+    );
+    assertThrows(
+      () => toEpochMsAtStartOfDay(D`2024-01-01`, "Nowhere"),
+      Error,
+      'Invalid time zone "Nowhere".',
+    );
+    assertThrows(
+      () => fromEpochMs(NaN),
+      Error,
+      "Invalid epoch milliseconds value (NaN).",
+    );
+  });
+});
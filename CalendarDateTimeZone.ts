@@ -0,0 +1,106 @@
+import { CalendarDate } from "./CalendarDate.ts";
+
+/** Cache of the Intl.DateTimeFormat used to find the local date and time in each time zone */
+const timeZoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get the local ("wall clock") date and time at the given instant in the given time zone, as the number of milliseconds
+ * since the Unix epoch if that local time were in UTC. So the difference between this and epochMs is the UTC offset.
+ * Intl only gives whole seconds, so the result is rounded down to the second.
+ */
+const getWallClockMs = (epochMs: number, timeZone: string): number => {
+  let formatter = timeZoneFormatters.get(timeZone);
+  if (formatter === undefined) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        calendar: "gregory",
+        numberingSystem: "latn",
+        era: "short",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric",
+        hourCycle: "h23",
+      });
+    } catch {
+      throw new Error(`Invalid time zone "${timeZone}".`);
+    }
+    timeZoneFormatters.set(timeZone, formatter);
+  }
+  const fields: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+  for (const part of formatter.formatToParts(epochMs)) {
+    fields[part.type] = part.type === "era"
+      ? (part.value === "BC" ? -1 : 1)
+      : Number(part.value);
+  }
+  const year = fields.era === -1 ? 1 - fields.year! : fields.year!;
+  const wallClock = new Date(0);
+  wallClock.setUTCFullYear(year, fields.month! - 1, fields.day!);
+  wallClock.setUTCHours(fields.hour!, fields.minute!, fields.second!);
+  return wallClock.getTime();
+};
+
+/**
+ * Get the calendar date at the given instant (milliseconds since the Unix epoch) in the given time zone, e.g.
+ * "America/Denver". The default time zone is UTC.
+ *
+ * Time zone data comes from Intl.DateTimeFormat.
+ */
+function fromEpochMs(epochMs: number, timeZone = "UTC"): CalendarDate {
+  if (!Number.isFinite(epochMs)) {
+    throw new Error(`Invalid epoch milliseconds value (${epochMs}).`);
+  }
+  const wallClockMs = timeZone === "UTC"
+    ? epochMs
+    : getWallClockMs(epochMs, timeZone);
+  // 719528 is the value of the Unix epoch, 1970-01-01:
+  return new CalendarDate(Math.floor(wallClockMs / 86400_000) + 719528);
+}
+
+/**
+ * Get the current date in the given time zone (e.g. "Asia/Tokyo"). CalendarDate.today() gives the current date in the
+ * system's local time zone.
+ */
+function todayInTimeZone(timeZone: string): CalendarDate {
+  return fromEpochMs(Date.now(), timeZone);
+}
+
+/**
+ * Get the number of milliseconds since the Unix epoch at which a date starts in the given time zone (e.g.
+ * "America/Denver"). This is usually midnight, local time, but if the clocks skipped over midnight on that day (e.g.
+ * for daylight saving time), it's the first instant of the day, e.g. 01:00.
+ *
+ * Time zone data comes from Intl.DateTimeFormat.
+ */
+function toEpochMsAtStartOfDay(date: CalendarDate, timeZone: string): number {
+  const midnightUtc = date.toEpochMs();
+  // Assume there's at most one change of UTC offset (e.g. for daylight saving time) within a day of midnight:
+  const offsetBefore = getWallClockMs(midnightUtc - 86400_000, timeZone) -
+    (midnightUtc - 86400_000);
+  const offsetAfter = getWallClockMs(midnightUtc + 86400_000, timeZone) -
+    (midnightUtc + 86400_000);
+  // If midnight happened twice, use the earlier one, which is the one with the larger offset:
+  const earlier = midnightUtc - Math.max(offsetBefore, offsetAfter);
+  const later = midnightUtc - Math.min(offsetBefore, offsetAfter);
+  if (getWallClockMs(earlier, timeZone) === midnightUtc) {
+    return earlier;
+  } else if (getWallClockMs(later, timeZone) === midnightUtc) {
+    return later;
+  }
+  // Midnight was skipped, so find when the clocks changed, between "earlier" (still the previous day) and "later":
+  let low = earlier, high = later;
+  while (high - low > 1000) {
+    const mid = low + Math.floor((high - low) / 2000) * 1000;
+    if (getWallClockMs(mid, timeZone) >= midnightUtc) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return high;
+}
+
+export { fromEpochMs, todayInTimeZone, toEpochMsAtStartOfDay };
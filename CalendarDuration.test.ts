@@ -0,0 +1,134 @@
+import { D } from "./CalendarDate.ts";
+import { CalendarDuration } from "./CalendarDuration.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("CalendarDuration constructor and from()", async (t) => {
+  await t.step("constructs a duration from its fields", () => {
+    const duration = new CalendarDuration(1, 2, 3, 4);
+    assertEquals(
+      [duration.years, duration.months, duration.weeks, duration.days],
+      [1, 2, 3, 4],
+    );
+    assertEquals(duration.sign, 1);
+  });
+
+  await t.step("missing fields are zero", () => {
+    const duration = CalendarDuration.from({ months: -3 });
+    assertEquals(
+      [duration.years, duration.months, duration.weeks, duration.days],
+      [0, -3, 0, 0],
+    );
+    assertEquals(duration.sign, -1);
+    assertEquals(new CalendarDuration().sign, 0);
+  });
+
+  await t.step("rejects non-integer and mixed-sign durations", () => {
+    assertThrows(
+      () => new CalendarDuration(0, 1.5),
+      Error,
+      "Non-integer duration value.",
+    );
+    assertThrows(
+      () => CalendarDuration.from({ months: 1, days: -1 }),
+      Error,
+      "Mixed-sign durations are not supported.",
+    );
+  });
+});
+
+Deno.test("CalendarDuration.negated()", () => {
+  assertEquals(
+    new CalendarDuration(1, 2, 0, 4).negated().toString(),
+    "-P1Y2M4D",
+  );
+  assertEquals(new CalendarDuration(0, -2).negated().toString(), "P2M");
+  assertEquals(new CalendarDuration().negated().toString(), "P0D");
+  assertEquals(new CalendarDuration().negated().days, 0);
+});
+
+Deno.test("CalendarDuration string conversion", async (t) => {
+  const cases: [string, [number, number, number, number]][] = [
+    ["P1Y2M3D", [1, 2, 0, 3]],
+    ["P1Y", [1, 0, 0, 0]],
+    ["P18M", [0, 18, 0, 0]],
+    ["P2W", [0, 0, 2, 0]],
+    ["P1Y2M3W4D", [1, 2, 3, 4]],
+    ["-P10D", [0, 0, 0, -10]],
+    ["P0D", [0, 0, 0, 0]],
+  ];
+  for (const [str, fields] of cases) {
+    await t.step(`parses and prints "${str}"`, () => {
+      const duration = CalendarDuration.fromString(str);
+      assertEquals(
+        [duration.years, duration.months, duration.weeks, duration.days],
+        fields,
+      );
+      assertEquals(duration.toString(), str);
+      assertEquals(new CalendarDuration(...fields).toString(), str);
+    });
+  }
+
+  await t.step("accepts an explicit positive sign", () => {
+    assertEquals(CalendarDuration.fromString("+P3M").toString(), "P3M");
+  });
+
+  for (const bad of ["", "P", "1Y", "P1D2M", "P1.5D", "P1DT12H", "PT1H"]) {
+    await t.step(`throws when asked to parse "${bad}"`, () => {
+      assertThrows(
+        () => CalendarDuration.fromString(bad),
+        Error,
+        "Duration string not in ISO 8601 PnYnMnWnD format",
+      );
+    });
+  }
+
+  await t.step("toJSON()", () => {
+    assertEquals(
+      JSON.stringify({ duration: new CalendarDuration(0, 1) }),
+      '{"duration":"P1M"}',
+    );
+  });
+});
+
+Deno.test("CalendarDuration can be added to a CalendarDate", () => {
+  const duration = CalendarDuration.fromString("P1M1D");
+  assertEquals(D`2001-01-31`.add(duration).toString(), "2001-03-01");
+  assertEquals(D`2001-03-01`.subtract(duration).toString(), "2001-01-31");
+  assertEquals(
+    D`2001-03-01`.add(duration.negated()).toString(),
+    D`2001-03-01`.subtract(duration).toString(),
+  );
+});
+
+Deno.test({
+  name: "CalendarDuration Temporal.Duration conversion",
+  ignore: typeof Temporal === "undefined",
+  fn: () => {
+    const duration = CalendarDuration.fromTemporalDuration(
+      Temporal.Duration.from("P1Y2M3W4D"),
+    );
+    assertEquals(duration.toString(), "P1Y2M3W4D");
+    assertEquals(duration.toTemporalDuration().toString(), "P1Y2M3W4D");
+    assertEquals(
+      new CalendarDuration(0, 0, 0, -5).toTemporalDuration().toString(),
+      "-P5D",
+    );
+    assertEquals(
+      CalendarDuration.fromTemporalDuration(new Temporal.Duration()).toString(),
+      "P0D",
+    );
+    // The same arithmetic as Temporal.PlainDate:
+    assertEquals(
+      D`2000-02-29`.add(duration).toString(),
+      D`2000-02-29`.toPlainDate().add(duration.toTemporalDuration()).toString(),
+    );
+    assertThrows(
+      () =>
+        CalendarDuration.fromTemporalDuration(
+          Temporal.Duration.from("P1DT12H"),
+        ),
+      Error,
+      "Durations with a time part are not supported.",
+    );
+  },
+});
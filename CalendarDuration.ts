@@ -0,0 +1,166 @@
+import type { CalendarDurationLike } from "./CalendarDate.ts";
+
+/**
+ * An amount of calendar time, made up of years, months, weeks, and days. Does not have any time component.
+ *
+ * Use CalendarDate's add() and subtract() methods to apply a duration to a date.
+ *
+ * All of the fields must be integers, and they must all have the same sign (e.g. you can't have "one month minus one
+ * day", since that would mean different things depending on which date it gets applied to).
+ */
+class CalendarDuration {
+  readonly #years: number;
+  readonly #months: number;
+  readonly #weeks: number;
+  readonly #days: number;
+
+  /**
+   * Construct a CalendarDuration from an object with any of years, months, weeks, and days, or from an ISO 8601
+   * duration string like "P1Y2M3D"
+   */
+  public static from(
+    duration: CalendarDurationLike | string,
+  ): CalendarDuration {
+    if (typeof duration === "string") {
+      return CalendarDuration.fromString(duration);
+    }
+    return new CalendarDuration(
+      duration.years,
+      duration.months,
+      duration.weeks,
+      duration.days,
+    );
+  }
+
+  /**
+   * Construct a CalendarDuration from an ISO 8601 duration string like "P1Y2M3D" or "-P2W".
+   * Durations with a time part (e.g. "P1DT12H") are not supported.
+   * @param str An ISO 8601 duration string
+   */
+  public static fromString(str: string): CalendarDuration {
+    const match = /^([+-])?P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?$/.exec(
+      str,
+    );
+    if (match === null || str.endsWith("P")) {
+      throw new Error("Duration string not in ISO 8601 PnYnMnWnD format");
+    }
+    const sign = match[1] === "-" ? -1 : 1;
+    const [years, months, weeks, days] = match.slice(2).map((x) =>
+      x === undefined ? 0 : sign * Number(x)
+    );
+    return new CalendarDuration(years, months, weeks, days);
+  }
+
+  /**
+   * Construct a CalendarDuration from a Temporal.Duration. Durations with a time part (e.g. 12 hours) are not
+   * supported.
+   */
+  public static fromTemporalDuration(
+    duration: Temporal.Duration,
+  ): CalendarDuration {
+    if (
+      duration.hours || duration.minutes || duration.seconds ||
+      duration.milliseconds || duration.microseconds || duration.nanoseconds
+    ) {
+      throw new Error(`Durations with a time part are not supported.`);
+    }
+    return new CalendarDuration(
+      duration.years,
+      duration.months,
+      duration.weeks,
+      duration.days,
+    );
+  }
+
+  constructor(years = 0, months = 0, weeks = 0, days = 0) {
+    const fields = [years, months, weeks, days];
+    if (!fields.every(Number.isInteger)) {
+      throw new Error(`Non-integer duration value.`);
+    } else if (fields.some((x) => x < 0) && fields.some((x) => x > 0)) {
+      throw new Error(`Mixed-sign durations are not supported.`);
+    }
+    // Normalize -0 to 0:
+    this.#years = years || 0;
+    this.#months = months || 0;
+    this.#weeks = weeks || 0;
+    this.#days = days || 0;
+  }
+
+  /** Get the number of years */
+  public get years(): number {
+    return this.#years;
+  }
+
+  /** Get the number of months */
+  public get months(): number {
+    return this.#months;
+  }
+
+  /** Get the number of weeks */
+  public get weeks(): number {
+    return this.#weeks;
+  }
+
+  /** Get the number of days */
+  public get days(): number {
+    return this.#days;
+  }
+
+  /** Get the sign of this duration: 1 if positive, -1 if negative, or 0 if it's zero. */
+  public get sign(): -1 | 0 | 1 {
+    return Math.sign(
+      this.#years || this.#months || this.#weeks || this.#days,
+    ) as -1 | 0 | 1;
+  }
+
+  /** Get a duration that is the same length as this one, but in the opposite direction */
+  public negated(): CalendarDuration {
+    return new CalendarDuration(
+      -this.#years,
+      -this.#months,
+      -this.#weeks,
+      -this.#days,
+    );
+  }
+
+  public equals(other: CalendarDuration): boolean {
+    return this.#years === other.#years && this.#months === other.#months &&
+      this.#weeks === other.#weeks && this.#days === other.#days;
+  }
+
+  /**
+   * Get the duration as an ISO 8601 string (e.g. "P1Y2M3D", "-P2W", or "P0D")
+   */
+  public toString(): string {
+    const sign = this.sign;
+    const str = (this.#years ? `${Math.abs(this.#years)}Y` : "") +
+      (this.#months ? `${Math.abs(this.#months)}M` : "") +
+      (this.#weeks ? `${Math.abs(this.#weeks)}W` : "") +
+      (this.#days ? `${Math.abs(this.#days)}D` : "");
+    return sign === 0 ? "P0D" : `${sign < 0 ? "-" : ""}P${str}`;
+  }
+
+  /** Get this duration as a Temporal.Duration */
+  public toTemporalDuration(): Temporal.Duration {
+    return new Temporal.Duration(
+      this.#years,
+      this.#months,
+      this.#weeks,
+      this.#days,
+    );
+  }
+
+  /**
+   * JSON serialization - as an ISO 8601 string
+   */
+  public toJSON(): string {
+    return this.toString();
+  }
+
+  // Pretty print in Deno
+  [Symbol.for("Deno.customInspect")](): string {
+    return `CalendarDuration {${this.toString()}}`;
+  }
+}
+
+export { CalendarDuration };
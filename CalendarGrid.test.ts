@@ -0,0 +1,132 @@
+import { CalendarDate } from "./CalendarDate.ts";
+import { monthGrid, yearGrid } from "./CalendarGrid.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("monthGrid()", async (t) => {
+  await t.step("weeks start on Monday by default", () => {
+    const grid = monthGrid(2024, 2);
+    assertEquals([grid.year, grid.month], [2024, 2]);
+    assertEquals(grid.weekdays, [0, 1, 2, 3, 4, 5, 6]);
+    assertEquals(
+      grid.weeks.map((week) => week.map((cell) => cell.date.day)),
+      [
+        [29, 30, 31, 1, 2, 3, 4],
+        [5, 6, 7, 8, 9, 10, 11],
+        [12, 13, 14, 15, 16, 17, 18],
+        [19, 20, 21, 22, 23, 24, 25],
+        [26, 27, 28, 29, 1, 2, 3],
+      ],
+    );
+    const { date, ...cell } = grid.weeks[0][0];
+    assertEquals(date.toString(), "2024-01-29");
+    assertEquals(cell, { inMonth: false, dayOfWeek: 0 });
+    assertEquals(grid.weeks[0][3].inMonth, true);
+    assertEquals(grid.weeks[4][3].date.toString(), "2024-02-29");
+    assertEquals(grid.weeks[4][4].inMonth, false);
+  });
+
+  await t.step("weekStartsOn", () => {
+    // Feb. 2026 starts on a Sunday and has exactly four weeks:
+    const grid = monthGrid(2026, 2, { weekStartsOn: 6 });
+    assertEquals(grid.weekdays, [6, 0, 1, 2, 3, 4, 5]);
+    assertEquals(grid.weeks.length, 4);
+    assertEquals(grid.weeks[0][0].date.toString(), "2026-02-01");
+    assertEquals(grid.weeks[0].map((cell) => cell.dayOfWeek), grid.weekdays);
+    assertEquals(grid.weeks.flat().every((cell) => cell.inMonth), true);
+    assertEquals(monthGrid(2026, 2).weeks.length, 5);
+    assertThrows(
+      () => monthGrid(2026, 2, { weekStartsOn: 7 }),
+      Error,
+      "Invalid day of week (7).",
+    );
+  });
+
+  await t.step("fixedWeeks", () => {
+    const grid = monthGrid(2026, 2, { weekStartsOn: 6, fixedWeeks: true });
+    assertEquals(grid.weeks.length, 6);
+    assertEquals(grid.weeks[5][6].date.toString(), "2026-03-14");
+    // A month that starts on the last day of the week needs all six weeks anyway:
+    assertEquals(monthGrid(2024, 9).weeks.length, 6);
+    assertEquals(monthGrid(2024, 9, { fixedWeeks: true }).weeks.length, 6);
+  });
+
+  await t.step("includeIsoWeekNumbers", () => {
+    const grid = monthGrid(2024, 12, { includeIsoWeekNumbers: true });
+    assertEquals(grid.weeks.map((week) => week[0].isoWeek), [
+      48,
+      49,
+      50,
+      51,
+      52,
+      1,
+    ]);
+    assertEquals(grid.weeks[5][1].date.toString(), "2024-12-31");
+    assertEquals(grid.weeks[5][1].isoWeek, 1);
+    // Weeks that don't start on Monday span two ISO weeks:
+    const sundays = monthGrid(2024, 12, {
+      weekStartsOn: 6,
+      includeIsoWeekNumbers: true,
+    });
+    assertEquals(sundays.weeks[0].map((cell) => cell.isoWeek), [
+      48,
+      49,
+      49,
+      49,
+      49,
+      49,
+      49,
+    ]);
+    assertEquals("isoWeek" in monthGrid(2024, 12).weeks[0][0], false);
+  });
+
+  await t.step("ends of the supported range", () => {
+    // 0001-01-01 is a Monday, so January of the year 1 fits unless weeks start on another day:
+    assertEquals(monthGrid(1, 1).weeks[0][0].date.toString(), "0001-01-01");
+    assertThrows(
+      () => monthGrid(1, 1, { weekStartsOn: 6 }),
+      Error,
+      "Date value (365) out of range.",
+    );
+    // 9999-12-31 is a Friday, so the last week of December 9999 doesn't fit:
+    assertEquals(monthGrid(9999, 11, { fixedWeeks: true }).weeks.length, 6);
+    assertThrows(() => monthGrid(9999, 12), Error, "out of range.");
+    assertThrows(
+      () => monthGrid(9999, 12, { fixedWeeks: true }),
+      Error,
+      "out of range.",
+    );
+    CalendarDate.enableExtendedRange();
+    try {
+      assertEquals(
+        monthGrid(1, 1, { weekStartsOn: 6 }).weeks[0][0].date.toString(),
+        "0000-12-31",
+      );
+      const december = monthGrid(9999, 12);
+      assertEquals(december.weeks[4][4].date.toString(), "9999-12-31");
+      assertEquals(december.weeks[4][5].date.toString(), "+010000-01-01");
+      assertEquals(december.weeks[4][5].inMonth, false);
+    } finally {
+      CalendarDate.enableExtendedRange(false);
+    }
+  });
+
+  await t.step("invalid months", () => {
+    assertThrows(() => monthGrid(2024, 13), Error, "Month out of range.");
+    assertThrows(() => monthGrid(2024, 0), Error, "Month out of range.");
+  });
+});
+
+Deno.test("yearGrid()", () => {
+  const grids = yearGrid(2024, { fixedWeeks: true });
+  assertEquals(
+    grids.map((grid) => grid.month),
+    Array.from({ length: 12 }, (_, i) => i + 1),
+  );
+  assertEquals(grids.every((grid) => grid.weeks.length === 6), true);
+  assertEquals(
+    grids.map((grid) => grid.weeks.flat().filter((cell) => cell.inMonth).length)
+      .reduce((a, b) => a + b),
+    366,
+  );
+  assertEquals(grids[11].weeks[0][6].date.toString(), "2024-12-01");
+});
@@ -0,0 +1,106 @@
+import { CalendarDate, type WeekOptions } from "./CalendarDate.ts";
+import { isoWeek } from "./CalendarDateIsoWeek.ts";
+
+/** Options for monthGrid() and yearGrid() */
+interface MonthGridOptions extends WeekOptions {
+  /**
+   * Always give six weeks, padded with days from the next month, so that every month's grid is the same height
+   * (default: false, which gives four to six weeks, as many as the month needs)
+   */
+  fixedWeeks?: boolean;
+  /** Include the ISO 8601 week number of each day (default: false) */
+  includeIsoWeekNumbers?: boolean;
+}
+
+/** One day in a month grid */
+interface MonthGridCell {
+  date: CalendarDate;
+  /** Is this day in the month being displayed? (false for days from the previous or next month that fill the grid) */
+  inMonth: boolean;
+  /** The day of the week (0 = Monday, 6 = Sunday) */
+  dayOfWeek: number;
+  /** The ISO 8601 week number (1-53), if includeIsoWeekNumbers was given */
+  isoWeek?: number;
+}
+
+/** The days of a month laid out in weeks, as shown by a date picker or a calendar */
+interface MonthGrid {
+  year: number;
+  month: number;
+  /** The day of the week (0 = Monday, 6 = Sunday) of each column, for the column headings, e.g. [6, 0, 1, 2, 3, 4, 5] */
+  weekdays: number[];
+  /** Each row of the grid: a week of seven days, starting on the weekStartsOn day */
+  weeks: MonthGridCell[][];
+}
+
+/**
+ * Lay out the days of a month in a grid of weeks, as shown by a date picker or a calendar. Each row is a week, from the
+ * week containing the first day of the month to the week containing its last day, so the first and last rows usually
+ * include some days from the previous and next months (with inMonth: false).
+ *
+ * This is only data, so that it can be rendered in any way; e.g. `grid.weeks.map((week) => week.map((cell) => ...))`.
+ *
+ * Every cell has a date, so this throws an error if the grid would include days outside the supported range of dates,
+ * i.e. for January of the year 1 (unless it starts on the weekStartsOn day) and for December of 9999. Call
+ * CalendarDate.enableExtendedRange() first if you need the grids for those months.
+ * @param year Year (e.g. 2024)
+ * @param month Month (1 for January, 12 for December)
+ */
+function monthGrid(
+  year: number,
+  month: number,
+  options: MonthGridOptions = {},
+): MonthGrid {
+  const weekStartsOn = options.weekStartsOn ?? 0;
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    throw new Error(`Month out of range.`);
+  }
+  const first = CalendarDate.create(year, month, 1);
+  const start = first.startOfWeek({ weekStartsOn });
+  const end = first.addDays(CalendarDate.daysInMonth(year, month) - 1)
+    .endOfWeek({ weekStartsOn });
+  const weekCount = options.fixedWeeks ? 6 : (end.value - start.value + 1) / 7;
+  const weeks: MonthGridCell[][] = [];
+  for (let i = 0; i < weekCount; i++) {
+    const week: MonthGridCell[] = [];
+    for (let j = 0; j < 7; j++) {
+      const date = start.addDays(i * 7 + j);
+      const cell: MonthGridCell = {
+        date,
+        inMonth: date.month === month && date.year === year,
+        dayOfWeek: (weekStartsOn + j) % 7,
+      };
+      if (options.includeIsoWeekNumbers) {
+        cell.isoWeek = isoWeek(date);
+      }
+      week.push(cell);
+    }
+    weeks.push(week);
+  }
+  return {
+    year,
+    month,
+    weekdays: Array.from({ length: 7 }, (_, j) => (weekStartsOn + j) % 7),
+    weeks,
+  };
+}
+
+/**
+ * Lay out each month of a year in a grid of weeks, for a 12-month overview. This is the same as calling monthGrid() for
+ * each month; use fixedWeeks to make every month the same height.
+ * @param year Year (e.g. 2024)
+ */
+function yearGrid(year: number, options: MonthGridOptions = {}): MonthGrid[] {
+  return Array.from(
+    { length: 12 },
+    (_, i) => monthGrid(year, i + 1, options),
+  );
+}
+
+export {
+  type MonthGrid,
+  monthGrid,
+  type MonthGridCell,
+  type MonthGridOptions,
+  yearGrid,
+};
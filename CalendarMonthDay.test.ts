@@ -0,0 +1,114 @@
+import { CalendarDateParseError, D } from "./CalendarDate.ts";
+import { CalendarMonthDay } from "./CalendarMonthDay.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("CalendarMonthDay", async (t) => {
+  await t.step("create(), fromString() and toString()", () => {
+    const christmas = CalendarMonthDay.create(12, 25);
+    assertEquals([christmas.month, christmas.day], [12, 25]);
+    assertEquals(christmas.toString(), "12-25");
+    assertEquals(CalendarMonthDay.fromString("12-25").equals(christmas), true);
+    assertEquals(
+      CalendarMonthDay.fromString("--12-25").equals(christmas),
+      true,
+    );
+    assertEquals(CalendarMonthDay.fromString("02-29").toString(), "02-29");
+    assertEquals(JSON.stringify([christmas]), '["12-25"]');
+    assertEquals(D`2023-01-05`.toMonthDay().toString(), "01-05");
+  });
+
+  await t.step("invalid values", () => {
+    for (
+      const [str, field] of [
+        ["13-01", "month"],
+        ["02-30", "day"],
+        ["--04-31", "day"],
+        ["1-5", undefined],
+        ["2024-01-05", undefined],
+      ] as const
+    ) {
+      const err = assertThrows(
+        () => CalendarMonthDay.fromString(str),
+        CalendarDateParseError,
+      );
+      assertEquals(err.field, field);
+    }
+    assertThrows(
+      () => CalendarMonthDay.create(4, 31),
+      Error,
+      "Day out of range.",
+    );
+    assertThrows(
+      () => new CalendarMonthDay(2 * 32 + 30),
+      Error,
+      "Invalid month-day value (94).",
+    );
+  });
+
+  await t.step("inYear()", () => {
+    assertEquals(
+      CalendarMonthDay.create(12, 25).inYear(2023).toString(),
+      "2023-12-25",
+    );
+    const leapDay = CalendarMonthDay.create(2, 29);
+    assertEquals(leapDay.inYear(2024).toString(), "2024-02-29");
+    assertEquals(leapDay.inYear(2023).toString(), "2023-02-28");
+    assertEquals(
+      leapDay.inYear(2023, { overflow: "rollover" }).toString(),
+      "2023-03-01",
+    );
+    assertThrows(
+      () => leapDay.inYear(2023, { overflow: "reject" }),
+      Error,
+      "Day out of range",
+    );
+  });
+
+  await t.step("addMonths()", () => {
+    const md = CalendarMonthDay.fromString;
+    assertEquals(md("03-15").addMonths(1).toString(), "04-15");
+    assertEquals(md("11-15").addMonths(3).toString(), "02-15");
+    assertEquals(md("01-15").addMonths(-1).toString(), "12-15");
+    assertEquals(md("01-15").addMonths(-25).toString(), "12-15");
+    assertEquals(md("06-01").addMonths(12).toString(), "06-01");
+    // There is no year, so February always has 29 days:
+    assertEquals(md("01-31").addMonths(1).toString(), "02-29");
+    assertEquals(
+      md("01-31").addMonths(1, { overflow: "rollover" }).toString(),
+      "03-02",
+    );
+    assertEquals(
+      md("03-31").addMonths(1, { overflow: "rollover" }).toString(),
+      "05-01",
+    );
+    assertThrows(
+      () => md("03-31").addMonths(1, { overflow: "reject" }),
+      Error,
+      "Day out of range (month 4 only has 30 days).",
+    );
+    assertEquals(
+      md("04-30").addMonths(1, { overflow: "endOfMonth" }).toString(),
+      "05-31",
+    );
+    assertEquals(
+      md("02-28").addMonths(1, { overflow: "endOfMonth" }).toString(),
+      "03-28",
+    );
+    assertEquals(
+      md("02-29").addMonths(1, { overflow: "endOfMonth" }).toString(),
+      "03-31",
+    );
+  });
+
+  await t.step("comparison", () => {
+    const newYear = CalendarMonthDay.create(1, 1);
+    const christmas = CalendarMonthDay.create(12, 25);
+    assertEquals(newYear < christmas, true);
+    assertEquals(
+      CalendarMonthDay.create(1, 31) < CalendarMonthDay.create(2, 1),
+      true,
+    );
+    assertEquals(christmas.isAfter(newYear), true);
+    assertEquals(newYear.isBefore(newYear), false);
+  });
+});
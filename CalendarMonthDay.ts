@@ -0,0 +1,191 @@
+import {
+  type AddMonthsOptions,
+  CalendarDate,
+  CalendarDateParseError,
+} from "./CalendarDate.ts";
+
+/**
+ * A month and day without a year, like "12-25", using the Gregorian calendar. e.g. a birthday or anniversary.
+ *
+ * February 29 is allowed; use the `overflow` option of inYear() to choose what it means in other years.
+ */
+class CalendarMonthDay {
+  /** The internal value (month * 32 + day) */
+  readonly #value: number;
+
+  /**
+   * Construct a CalendarMonthDay from a month and day
+   * @param month Month (1-12)
+   * @param day Day (1-31, depending on the month; February can have 29 days)
+   */
+  public static create(month: number, day: number): CalendarMonthDay {
+    if (!Number.isInteger(month) || month < 1 || month > 12) {
+      throw new Error(`Month out of range.`);
+    } else if (
+      !Number.isInteger(day) || day < 1 ||
+      day > CalendarDate.daysInMonth(2000, month) // 2000 is a leap year
+    ) {
+      throw new Error(`Day out of range.`);
+    }
+    return new CalendarMonthDay(month * 32 + day);
+  }
+
+  /**
+   * Parse a month and day string like "12-25", or the ISO 8601 form "--12-25"
+   * @param str A "MM-DD" or "--MM-DD" string
+   */
+  public static fromString(str: string): CalendarMonthDay {
+    const match = /^(?:--)?(\d{2})-(\d{2})$/.exec(str);
+    if (match === null) {
+      throw new CalendarDateParseError(
+        "Expected a month and day (MM-DD).",
+        str,
+        undefined,
+        0,
+      );
+    }
+    const offset = str.length - 5;
+    const month = Number(match[1]), day = Number(match[2]);
+    if (month < 1 || month > 12) {
+      throw new CalendarDateParseError(
+        "Month out of range.",
+        str,
+        "month",
+        offset,
+      );
+    } else if (day < 1 || day > CalendarDate.daysInMonth(2000, month)) {
+      throw new CalendarDateParseError(
+        "Day out of range.",
+        str,
+        "day",
+        offset + 3,
+      );
+    }
+    return new CalendarMonthDay(month * 32 + day);
+  }
+
+  /**
+   * Construct a CalendarMonthDay instance using its internal int representation
+   * @param value month * 32 + day
+   */
+  constructor(value: number) {
+    const month = value >> 5, day = value & 31;
+    if (
+      !Number.isInteger(value) || month < 1 || month > 12 || day < 1 ||
+      day > CalendarDate.daysInMonth(2000, month)
+    ) {
+      throw new Error(`Invalid month-day value (${value}).`);
+    }
+    this.#value = value;
+  }
+
+  /** Get the month (1-12) */
+  public get month(): number {
+    return this.#value >> 5;
+  }
+
+  /** Get the day of the month (1-31) */
+  public get day(): number {
+    return this.#value & 31;
+  }
+
+  /** Get the internal value of this CalendarMonthDay (month * 32 + day) */
+  public get value(): number {
+    return this.#value;
+  }
+
+  /**
+   * Get this month and day in the given year.
+   *
+   * February 29 doesn't exist in most years. By default, it becomes February 28 in those years (overflow:
+   * "constrain"), but you can choose March 1 instead (overflow: "rollover"), or throw an error (overflow: "reject").
+   */
+  public inYear(year: number, options: AddMonthsOptions = {}): CalendarDate {
+    const month = this.month, day = this.day;
+    if (day === 29 && month === 2 && !CalendarDate.isLeapYear(year)) {
+      const overflow = options.overflow ?? "constrain";
+      if (overflow === "reject") {
+        throw new Error(`Day out of range (${year}-2 only has 28 days).`);
+      }
+      return overflow === "rollover"
+        ? CalendarDate.create(year, 3, 1)
+        : CalendarDate.create(year, 2, 28);
+    }
+    return CalendarDate.create(year, month, day);
+  }
+
+  /**
+   * Add the given number of months, wrapping around from December to January (e.g. to move a monthly reminder).
+   *
+   * There is no year, so February has 29 days. If the day doesn't exist in the new month, this follows the `overflow`
+   * option, like CalendarDate.addMonths(): e.g. 01-31 plus one month is 02-29 by default (overflow: "constrain").
+   */
+  public addMonths(
+    delta: number,
+    options: AddMonthsOptions = {},
+  ): CalendarMonthDay {
+    const overflow = options.overflow ?? "constrain";
+    const month = this.month, day = this.day;
+    const newMonth = ((month - 1 + delta) % 12 + 12) % 12 + 1;
+    const maxDay = CalendarDate.daysInMonth(2000, newMonth); // 2000 is a leap year
+    let newDay = day;
+    if (
+      overflow === "endOfMonth" &&
+      day === CalendarDate.daysInMonth(2000, month)
+    ) {
+      newDay = maxDay;
+    } else if (day > maxDay) {
+      if (overflow === "reject") {
+        throw new Error(
+          `Day out of range (month ${newMonth} only has ${maxDay} days).`,
+        );
+      } else if (overflow === "rollover") {
+        // e.g. 01-31 plus one month becomes "02-31", which rolls over to 03-02
+        return new CalendarMonthDay((newMonth + 1) * 32 + day - maxDay);
+      }
+      newDay = maxDay;
+    }
+    return new CalendarMonthDay(newMonth * 32 + newDay);
+  }
+
+  public equals(other: CalendarMonthDay): boolean {
+    return this.#value === other.#value;
+  }
+
+  public isBefore(other: CalendarMonthDay): boolean {
+    return this.#value < other.#value;
+  }
+
+  public isAfter(other: CalendarMonthDay): boolean {
+    return this.#value > other.#value;
+  }
+
+  /**
+   * Get the month and day as a string (e.g. "12-25"), like Temporal.PlainMonthDay
+   */
+  public toString(): string {
+    const month = this.month, day = this.day;
+    return (month < 10 ? "0" : "") + month + (day < 10 ? "-0" : "-") + day;
+  }
+
+  /**
+   * JSON serialization - as a "MM-DD" string
+   */
+  public toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * Get the internal value, so that month-days can be compared with <, >, etc.
+   */
+  public valueOf(): number {
+    return this.#value;
+  }
+
+  // Pretty print in Deno
+  [Symbol.for("Deno.customInspect")](): string {
+    return `CalendarMonthDay {${this.toString()}}`;
+  }
+}
+
+export { CalendarMonthDay };
@@ -0,0 +1,81 @@
+import { CalendarDateParseError, D } from "./CalendarDate.ts";
+import { CalendarYearMonth } from "./CalendarYearMonth.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("CalendarYearMonth", async (t) => {
+  await t.step("create(), fromString() and toString()", () => {
+    const yearMonth = CalendarYearMonth.create(2024, 3);
+    assertEquals([yearMonth.year, yearMonth.month], [2024, 3]);
+    assertEquals(yearMonth.toString(), "2024-03");
+    assertEquals(
+      CalendarYearMonth.fromString("2024-03").equals(yearMonth),
+      true,
+    );
+    assertEquals(CalendarYearMonth.fromString("0001-01").value, 12);
+    assertEquals(CalendarYearMonth.fromString("9999-12").toString(), "9999-12");
+    assertEquals(JSON.stringify({ period: yearMonth }), '{"period":"2024-03"}');
+    assertEquals(
+      D`2024-03-31`.toYearMonth().toString(),
+      "2024-03",
+    );
+  });
+
+  await t.step("invalid values", () => {
+    for (
+      const [str, field] of [
+        ["2024-13", "month"],
+        ["2024-00", "month"],
+        ["0000-01", "year"],
+        ["2024-3", undefined],
+        ["202403", undefined],
+        ["2024-03-01", undefined],
+      ] as const
+    ) {
+      const err = assertThrows(
+        () => CalendarYearMonth.fromString(str),
+        CalendarDateParseError,
+      );
+      assertEquals(err.field, field);
+    }
+    assertThrows(
+      () => CalendarYearMonth.create(2024, 13),
+      Error,
+      "Month out of range.",
+    );
+    assertThrows(
+      () => CalendarYearMonth.create(10000, 1),
+      Error,
+      "out of range.",
+    );
+    assertThrows(
+      () => CalendarYearMonth.create(9999, 12).addMonths(1),
+      Error,
+      "out of range.",
+    );
+  });
+
+  await t.step("days and arithmetic", () => {
+    const feb = CalendarYearMonth.create(2024, 2);
+    assertEquals(feb.daysInMonth, 29);
+    assertEquals(feb.addYears(1).daysInMonth, 28);
+    assertEquals(feb.atDay(15).toString(), "2024-02-15");
+    assertEquals(feb.atEndOfMonth().toString(), "2024-02-29");
+    assertThrows(() => feb.atDay(30), Error, "Day out of range.");
+    assertEquals(feb.addMonths(11).toString(), "2025-01");
+    assertEquals(feb.addMonths(-2).toString(), "2023-12");
+    assertEquals(feb.monthsUntil(CalendarYearMonth.create(2025, 1)), 11);
+  });
+
+  await t.step("comparison", () => {
+    const a = CalendarYearMonth.create(2023, 12);
+    const b = CalendarYearMonth.create(2024, 1);
+    assertEquals(a < b, true);
+    assertEquals(a.isBefore(b), true);
+    assertEquals(b.isAfter(a), true);
+    assertEquals(a.equals(CalendarYearMonth.fromString("2023-12")), true);
+    assertEquals([b, a].sort((x, y) => x.value - y.value).map(String), [
+      "2023-12",
+      "2024-01",
+    ]);
+  });
+});
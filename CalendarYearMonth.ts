@@ -0,0 +1,152 @@
+import { CalendarDate, CalendarDateParseError } from "./CalendarDate.ts";
+
+/**
+ * A month of a specific year, like "2024-03", using the Gregorian calendar. e.g. a billing period.
+ */
+class CalendarYearMonth {
+  /** The internal value (months since January of the year "0") */
+  readonly #value: number;
+
+  /**
+   * Construct a CalendarYearMonth from a year and month
+   * @param year Year (1-9999)
+   * @param month Month (1-12)
+   */
+  public static create(year: number, month: number): CalendarYearMonth {
+    if (!Number.isInteger(month) || month < 1 || month > 12) {
+      throw new Error(`Month out of range.`);
+    } else if (!Number.isInteger(year)) {
+      throw new Error(`Non-integer year.`);
+    }
+    return new CalendarYearMonth(year * 12 + month - 1);
+  }
+
+  /**
+   * Parse an ISO 8601 year and month string like "2024-03"
+   * @param str A "YYYY-MM" string
+   */
+  public static fromString(str: string): CalendarYearMonth {
+    const match = /^(\d{4})-(\d{2})$/.exec(str);
+    if (match === null) {
+      throw new CalendarDateParseError(
+        "Expected a year and month (YYYY-MM).",
+        str,
+        undefined,
+        0,
+      );
+    }
+    const year = Number(match[1]), month = Number(match[2]);
+    if (year < 1) {
+      throw new CalendarDateParseError("Year out of range.", str, "year", 0);
+    } else if (month < 1 || month > 12) {
+      throw new CalendarDateParseError("Month out of range.", str, "month", 5);
+    }
+    return new CalendarYearMonth(year * 12 + month - 1);
+  }
+
+  /**
+   * Construct a CalendarYearMonth instance using its internal int representation
+   * @param monthsValue how many months since January of the year "0" (1 BCE)
+   */
+  constructor(monthsValue: number) {
+    if (
+      monthsValue < 12 || // 12 represents January, in the year 1 CE
+      monthsValue > 119999 // 119999 is December, 9999
+    ) {
+      throw new Error(`Year-month value (${monthsValue}) out of range.`);
+    } else if (!Number.isInteger(monthsValue)) {
+      throw new Error(`Non-integer year-month value.`);
+    }
+    this.#value = monthsValue;
+  }
+
+  /** Get the year */
+  public get year(): number {
+    return this.#value / 12 | 0;
+  }
+
+  /** Get the month (1-12) */
+  public get month(): number {
+    return this.#value % 12 + 1;
+  }
+
+  /** How many days are in this month? */
+  public get daysInMonth(): number {
+    return CalendarDate.daysInMonth(this.year, this.month);
+  }
+
+  /** Get the internal value of this CalendarYearMonth (months since January of the year "0") */
+  public get value(): number {
+    return this.#value;
+  }
+
+  /**
+   * Get the given day of this month as a CalendarDate
+   * @param day Day of the month (1-31)
+   */
+  public atDay(day: number): CalendarDate {
+    return CalendarDate.create(this.year, this.month, day);
+  }
+
+  /** Get the last day of this month as a CalendarDate */
+  public atEndOfMonth(): CalendarDate {
+    return this.atDay(this.daysInMonth);
+  }
+
+  /** Add the given number of months */
+  public addMonths(delta: number): CalendarYearMonth {
+    return new CalendarYearMonth(this.#value + delta);
+  }
+
+  /** Add the given number of years */
+  public addYears(delta: number): CalendarYearMonth {
+    return new CalendarYearMonth(this.#value + delta * 12);
+  }
+
+  /** How many months are there from this month until the other one? (Negative if the other one is earlier) */
+  public monthsUntil(other: CalendarYearMonth): number {
+    return other.#value - this.#value;
+  }
+
+  public equals(other: CalendarYearMonth): boolean {
+    return this.#value === other.#value;
+  }
+
+  public isBefore(other: CalendarYearMonth): boolean {
+    return this.#value < other.#value;
+  }
+
+  public isAfter(other: CalendarYearMonth): boolean {
+    return this.#value > other.#value;
+  }
+
+  /**
+   * Get the year and month as an ISO 8601 string (e.g. "2024-03")
+   */
+  public toString(): string {
+    const month = this.month;
+    return String(this.year).padStart(4, "0") + (month < 10 ? "-0" : "-") +
+      month;
+  }
+
+  /**
+   * JSON serialization - as an ISO 8601 string
+   */
+  public toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * Get the internal value, so that year-months can be compared with <, >, etc.
+   */
+  public valueOf(): number {
+    return this.#value;
+  }
+
+  // Pretty print in Deno
+  [Symbol.for("Deno.customInspect")](): string {
+    return `CalendarYearMonth {${this.toString()}}`;
+  }
+}
+
+export { CalendarYearMonth };
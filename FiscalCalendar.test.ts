@@ -0,0 +1,248 @@
+import { type CalendarDate, D } from "./CalendarDate.ts";
+import { FiscalCalendar } from "./FiscalCalendar.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+/** Summarize where a date falls in a fiscal calendar, e.g. "FY2024 Q1 M1 W1" */
+const describe = (calendar: FiscalCalendar, date: CalendarDate) =>
+  `FY${calendar.fiscalYear(date)} Q${calendar.fiscalQuarter(date)} M${
+    calendar.fiscalMonth(date)
+  } W${calendar.fiscalWeek(date)}`;
+
+/** Get the start and end of each of a fiscal year's months, e.g. "2023-01-29 - 2023-02-25" */
+const months = (calendar: FiscalCalendar, fiscalYear: number) => {
+  const result: string[] = [];
+  let date = calendar.yearStart(fiscalYear);
+  while (date.isBefore(calendar.yearEnd(fiscalYear))) {
+    const end = calendar.endOfFiscalMonth(date);
+    assertEquals(
+      calendar.startOfFiscalMonth(end).toString(),
+      date.toString(),
+    );
+    result.push(`${date.toString()} - ${end.toString()}`);
+    date = end.addDays(1);
+  }
+  return result;
+};
+
+Deno.test("FiscalCalendar starting on the first day of a month", async (t) => {
+  await t.step("April 1, numbered by the year it ends", () => {
+    const calendar = new FiscalCalendar({ startMonth: 4 });
+    assertEquals(describe(calendar, D`2024-03-31`), "FY2024 Q4 M12 W53");
+    assertEquals(describe(calendar, D`2024-04-01`), "FY2025 Q1 M1 W1");
+    assertEquals(describe(calendar, D`2024-08-15`), "FY2025 Q2 M5 W20");
+    const date = D`2024-08-15`;
+    assertEquals(calendar.startOfFiscalYear(date).toString(), "2024-04-01");
+    assertEquals(calendar.endOfFiscalYear(date).toString(), "2025-03-31");
+    assertEquals(calendar.startOfFiscalQuarter(date).toString(), "2024-07-01");
+    assertEquals(calendar.endOfFiscalQuarter(date).toString(), "2024-09-30");
+    assertEquals(calendar.startOfFiscalMonth(date).toString(), "2024-08-01");
+    assertEquals(calendar.endOfFiscalMonth(date).toString(), "2024-08-31");
+    assertEquals(calendar.yearStart(2025).toString(), "2024-04-01");
+    assertEquals(calendar.yearEnd(2025).toString(), "2025-03-31");
+    assertEquals(months(calendar, 2025)[11], "2025-03-01 - 2025-03-31");
+  });
+
+  await t.step("April 1, numbered by the year it starts", () => {
+    const calendar = new FiscalCalendar({ startMonth: 4, yearLabel: "start" });
+    assertEquals(calendar.fiscalYear(D`2024-03-31`), 2023);
+    assertEquals(calendar.fiscalYear(D`2024-04-01`), 2024);
+    assertEquals(calendar.yearStart(2024).toString(), "2024-04-01");
+  });
+
+  await t.step("US federal government (October 1)", () => {
+    const calendar = new FiscalCalendar({ startMonth: 10 });
+    assertEquals(describe(calendar, D`2023-09-30`), "FY2023 Q4 M12 W53");
+    assertEquals(describe(calendar, D`2023-10-01`), "FY2024 Q1 M1 W1");
+    assertEquals(
+      calendar.endOfFiscalQuarter(D`2024-01-01`).toString(),
+      "2024-03-31",
+    );
+  });
+
+  await t.step("January 1 is the same as the calendar year", () => {
+    for (const yearLabel of ["start", "end"] as const) {
+      const calendar = new FiscalCalendar({ startMonth: 1, yearLabel });
+      for (const date of [D`2023-01-01`, D`2023-05-17`, D`2024-12-31`]) {
+        assertEquals(calendar.fiscalYear(date), date.year);
+        assertEquals(calendar.fiscalMonth(date), date.month);
+        assertEquals(calendar.fiscalQuarter(date), Math.ceil(date.month / 3));
+        assertEquals(
+          calendar.startOfFiscalQuarter(date).toString(),
+          date.startOfQuarter().toString(),
+        );
+        assertEquals(
+          calendar.endOfFiscalYear(date).toString(),
+          date.endOfYear().toString(),
+        );
+      }
+    }
+  });
+
+  await t.step("at the limits of the supported range", () => {
+    const calendar = new FiscalCalendar({ startMonth: 4 });
+    assertEquals(describe(calendar, D`0001-01-01`), "FY1 Q4 M10 W40");
+    assertEquals(
+      calendar.endOfFiscalMonth(D`0001-01-01`).toString(),
+      "0001-01-31",
+    );
+    assertEquals(describe(calendar, D`9999-12-31`), "FY10000 Q3 M9 W40");
+    assertEquals(
+      calendar.startOfFiscalQuarter(D`9999-12-31`).toString(),
+      "9999-10-01",
+    );
+  });
+});
+
+Deno.test("FiscalCalendar with 52/53-week years", async (t) => {
+  await t.step("4-5-4 retail calendar (NRF)", () => {
+    // The fiscal year ends on the Saturday nearest the end of January, and is numbered by the year in which it starts:
+    const calendar = new FiscalCalendar({
+      weekPattern: "4-5-4",
+      endMonth: 1,
+      weekEndsOn: 5,
+      yearEnd: "nearest",
+      yearLabel: "start",
+    });
+    assertEquals(calendar.weeksInYear(2022), 52);
+    assertEquals(calendar.weeksInYear(2023), 53);
+    assertEquals(months(calendar, 2023), [
+      "2023-01-29 - 2023-02-25",
+      "2023-02-26 - 2023-04-01",
+      "2023-04-02 - 2023-04-29",
+      "2023-04-30 - 2023-05-27",
+      "2023-05-28 - 2023-07-01",
+      "2023-07-02 - 2023-07-29",
+      "2023-07-30 - 2023-08-26",
+      "2023-08-27 - 2023-09-30",
+      "2023-10-01 - 2023-10-28",
+      "2023-10-29 - 2023-11-25",
+      "2023-11-26 - 2023-12-30",
+      "2023-12-31 - 2024-02-03", // The 53rd week is added to the last month
+    ]);
+    assertEquals(describe(calendar, D`2024-02-03`), "FY2023 Q4 M12 W53");
+    assertEquals(describe(calendar, D`2024-02-04`), "FY2024 Q1 M1 W1");
+    assertEquals(describe(calendar, D`2023-01-28`), "FY2022 Q4 M12 W52");
+    assertEquals(
+      calendar.startOfFiscalQuarter(D`2023-06-15`).toString(),
+      "2023-04-30",
+    );
+    assertEquals(
+      calendar.endOfFiscalQuarter(D`2023-06-15`).toString(),
+      "2023-07-29",
+    );
+  });
+
+  await t.step(
+    "4-4-5 calendar ending on the last Saturday of September",
+    () => {
+      const calendar = new FiscalCalendar({
+        weekPattern: "4-4-5",
+        endMonth: 9,
+        weekEndsOn: 5,
+      });
+      assertEquals(calendar.yearStart(2023).toString(), "2022-09-25");
+      assertEquals(calendar.yearEnd(2023).toString(), "2023-09-30");
+      assertEquals(calendar.yearEnd(2024).toString(), "2024-09-28");
+      assertEquals(calendar.weeksInYear(2023), 53);
+      assertEquals(calendar.weeksInYear(2024), 52);
+      assertEquals(months(calendar, 2024).slice(0, 3), [
+        "2023-10-01 - 2023-10-28",
+        "2023-10-29 - 2023-11-25",
+        "2023-11-26 - 2023-12-30",
+      ]);
+      assertEquals(describe(calendar, D`2023-09-30`), "FY2023 Q4 M12 W53");
+    },
+  );
+
+  await t.step("5-4-4 calendar", () => {
+    const calendar = new FiscalCalendar({
+      weekPattern: "5-4-4",
+      endMonth: 12,
+      weekEndsOn: 6,
+      yearEnd: "nearest",
+    });
+    // The Sunday nearest December 31, 2023 is that day:
+    assertEquals(calendar.yearStart(2024).toString(), "2024-01-01");
+    assertEquals(calendar.yearEnd(2024).toString(), "2024-12-29");
+    assertEquals(months(calendar, 2024).slice(0, 3), [
+      "2024-01-01 - 2024-02-04",
+      "2024-02-05 - 2024-03-03",
+      "2024-03-04 - 2024-03-31",
+    ]);
+    assertEquals(calendar.yearEnd(2025).toString(), "2025-12-28");
+    // The Sunday nearest December 31, 2026 is in the next calendar year:
+    assertEquals(calendar.yearEnd(2026).toString(), "2027-01-03");
+    assertEquals(calendar.fiscalYear(D`2027-01-02`), 2026);
+    assertEquals(calendar.fiscalYear(D`2027-01-04`), 2027);
+  });
+
+  await t.step("every day is in exactly one fiscal week", () => {
+    const calendar = new FiscalCalendar({
+      weekPattern: "4-4-5",
+      endMonth: 2,
+      weekEndsOn: 6,
+      yearEnd: "nearest",
+    });
+    let previous = D`1999-12-31`;
+    for (let date = D`2000-01-01`; date.year < 2030; date = date.addDays(1)) {
+      const week = calendar.fiscalWeek(date);
+      if (date.dayOfWeek === 0) {
+        assertEquals(week, week === 1 ? 1 : calendar.fiscalWeek(previous) + 1);
+      } else {
+        assertEquals(week, calendar.fiscalWeek(previous));
+      }
+      previous = date;
+    }
+  });
+
+  await t.step("at the limits of the supported range", () => {
+    // Fiscal year 1 starts in the year 0 (on 0000-12-31), and fiscal year 9999 ends in the year 10000 (on 10000-01-01):
+    const calendar = new FiscalCalendar({
+      weekPattern: "4-5-4",
+      endMonth: 12,
+      weekEndsOn: 5,
+      yearEnd: "nearest",
+    });
+    assertEquals(describe(calendar, D`0001-01-01`), "FY1 Q1 M1 W1");
+    assertEquals(
+      calendar.endOfFiscalMonth(D`0001-01-01`).toString(),
+      "0001-01-27",
+    );
+    assertEquals(calendar.weeksInYear(1), 52);
+    assertEquals(describe(calendar, D`9999-12-31`), "FY9999 Q4 M12 W52");
+    assertEquals(
+      calendar.startOfFiscalMonth(D`9999-12-31`).toString(),
+      "9999-12-05",
+    );
+  });
+});
+
+Deno.test("FiscalCalendar errors", () => {
+  assertThrows(
+    () => new FiscalCalendar({ startMonth: 13 }),
+    Error,
+    "Month out of range.",
+  );
+  assertThrows(
+    () =>
+      new FiscalCalendar({ weekPattern: "4-4-5", endMonth: 1, weekEndsOn: 7 }),
+    Error,
+    "Invalid day of week (7).",
+  );
+  assertThrows(
+    () =>
+      new FiscalCalendar({
+        // @ts-expect-error Not a valid pattern
+        weekPattern: "3-3-3",
+        endMonth: 1,
+        weekEndsOn: 5,
+      }),
+    Error,
+    'Invalid week pattern "3-3-3".',
+  );
+  assertThrows(
+    () => new FiscalCalendar({ startMonth: 4 }).yearStart(2024.5),
+    Error,
+    "Non-integer fiscal year.",
+  );
+});
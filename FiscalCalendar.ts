@@ -0,0 +1,311 @@
+import { CalendarDate } from "./CalendarDate.ts";
+
+/**
+ * How fiscal years are numbered:
+ * - "end": by the calendar year in which the fiscal year ends (e.g. April 2023 - March 2024 is fiscal year 2024)
+ * - "start": by the calendar year in which the fiscal year starts (e.g. April 2023 - March 2024 is fiscal year 2023)
+ */
+type FiscalYearLabel = "end" | "start";
+
+/** Options for a fiscal year made of 12 calendar months, starting on the first day of a given month */
+interface FiscalCalendarMonthOptions {
+  /** The month in which each fiscal year starts (1-12), e.g. 4 for a fiscal year starting on April 1 */
+  startMonth: number;
+  /** How to number fiscal years. Default: "end" */
+  yearLabel?: FiscalYearLabel;
+}
+
+/** Options for a 52/53-week fiscal year made of whole weeks, as used in retail */
+interface FiscalCalendarWeekOptions {
+  /** How many weeks are in each of the three fiscal months of each quarter */
+  weekPattern: "4-4-5" | "4-5-4" | "5-4-4";
+  /** The month in which each fiscal year ends (1-12) */
+  endMonth: number;
+  /** The day of the week on which each fiscal week (and year) ends (0 = Monday, 6 = Sunday) */
+  weekEndsOn: number;
+  /**
+   * Which day ends the fiscal year:
+   * - "last": the last `weekEndsOn` day of `endMonth` (the default)
+   * - "nearest": the `weekEndsOn` day nearest to the last day of `endMonth`, which may be early in the next month
+   */
+  yearEnd?: "last" | "nearest";
+  /** How to number fiscal years. Default: "end" */
+  yearLabel?: FiscalYearLabel;
+}
+
+type FiscalCalendarOptions =
+  | FiscalCalendarMonthOptions
+  | FiscalCalendarWeekOptions;
+
+const WEEK_PATTERNS = Object.freeze({
+  "4-4-5": [4, 4, 5],
+  "4-5-4": [4, 5, 4],
+  "5-4-4": [5, 4, 4],
+});
+
+/** 400 Gregorian years are exactly 146,097 days (20,871 weeks) long */
+const DAYS_IN_400_YEARS = 146097;
+
+/** A fiscal year: the values of its first and last days, and of the first day of each of its 12 fiscal months */
+interface FiscalYear {
+  readonly endYear: number;
+  readonly start: number;
+  readonly end: number;
+  readonly monthStarts: readonly number[];
+}
+
+/**
+ * A fiscal calendar, which splits time into fiscal years, each with four fiscal quarters of three fiscal months.
+ *
+ * Fiscal years can either be made of calendar months, starting on the first day of a given month (e.g. April 1), or of
+ * whole weeks (52 or 53 per year) grouped into fiscal months using a 4-4-5, 4-5-4, or 5-4-4 pattern. In a 53-week year,
+ * the extra week is added to the last fiscal month of the year.
+ */
+class FiscalCalendar {
+  readonly #options: Readonly<FiscalCalendarOptions>;
+  /** The calendar month in which each fiscal year ends */
+  readonly #endMonth: number;
+  /** Each fiscal year that has been computed so far, keyed by the calendar year in which it ends */
+  readonly #years = new Map<number, FiscalYear>();
+
+  constructor(options: FiscalCalendarOptions) {
+    const yearLabel = options.yearLabel ?? "end";
+    if (yearLabel !== "end" && yearLabel !== "start") {
+      throw new Error(`Invalid fiscal year label "${yearLabel}".`);
+    }
+    if ("weekPattern" in options) {
+      const { weekPattern, endMonth, weekEndsOn, yearEnd = "last" } = options;
+      if (!Object.hasOwn(WEEK_PATTERNS, weekPattern)) {
+        throw new Error(`Invalid week pattern "${weekPattern}".`);
+      } else if (!Number.isInteger(endMonth) || endMonth < 1 || endMonth > 12) {
+        throw new Error(`Month out of range.`);
+      } else if (
+        !Number.isInteger(weekEndsOn) || weekEndsOn < 0 || weekEndsOn > 6
+      ) {
+        throw new Error(`Invalid day of week (${weekEndsOn}).`);
+      } else if (yearEnd !== "last" && yearEnd !== "nearest") {
+        throw new Error(`Invalid fiscal year end "${yearEnd}".`);
+      }
+      this.#options = Object.freeze({
+        weekPattern,
+        endMonth,
+        weekEndsOn,
+        yearEnd,
+        yearLabel,
+      });
+      this.#endMonth = endMonth;
+    } else {
+      const { startMonth } = options;
+      if (
+        !Number.isInteger(startMonth) || startMonth < 1 || startMonth > 12
+      ) {
+        throw new Error(`Month out of range.`);
+      }
+      this.#options = Object.freeze({ startMonth, yearLabel });
+      this.#endMonth = startMonth === 1 ? 12 : startMonth - 1;
+    }
+  }
+
+  /** Get the options that define this fiscal calendar, including the defaults */
+  public get options(): Readonly<FiscalCalendarOptions> {
+    return this.#options;
+  }
+
+  /** Get the fiscal year that the given date is in */
+  public fiscalYear(date: CalendarDate): number {
+    return this.#label(this.#yearOf(date).endYear);
+  }
+
+  /** Get the fiscal quarter (1-4) that the given date is in */
+  public fiscalQuarter(date: CalendarDate): number {
+    return Math.ceil(this.fiscalMonth(date) / 3);
+  }
+
+  /** Get the fiscal month (1-12) that the given date is in. Fiscal month 1 is the first month of the fiscal year. */
+  public fiscalMonth(date: CalendarDate): number {
+    const { monthStarts } = this.#yearOf(date);
+    let month = 12;
+    while (monthStarts[month - 1] > date.value) {
+      month--;
+    }
+    return month;
+  }
+
+  /**
+   * Get the fiscal week (1-53) that the given date is in. Week 1 starts on the first day of the fiscal year. (For a
+   * fiscal year made of calendar months, the last week of the year is usually only one or two days long.)
+   */
+  public fiscalWeek(date: CalendarDate): number {
+    return Math.floor((date.value - this.#yearOf(date).start) / 7) + 1;
+  }
+
+  /** Get the first day of the fiscal year that the given date is in */
+  public startOfFiscalYear(date: CalendarDate): CalendarDate {
+    return new CalendarDate(this.#yearOf(date).start);
+  }
+
+  /** Get the last day of the fiscal year that the given date is in */
+  public endOfFiscalYear(date: CalendarDate): CalendarDate {
+    return new CalendarDate(this.#yearOf(date).end);
+  }
+
+  /** Get the first day of the fiscal quarter that the given date is in */
+  public startOfFiscalQuarter(date: CalendarDate): CalendarDate {
+    const { monthStarts } = this.#yearOf(date);
+    return new CalendarDate(
+      monthStarts[(this.fiscalQuarter(date) - 1) * 3],
+    );
+  }
+
+  /** Get the last day of the fiscal quarter that the given date is in */
+  public endOfFiscalQuarter(date: CalendarDate): CalendarDate {
+    return this.#endOfMonth(date, this.fiscalQuarter(date) * 3);
+  }
+
+  /** Get the first day of the fiscal month that the given date is in */
+  public startOfFiscalMonth(date: CalendarDate): CalendarDate {
+    const { monthStarts } = this.#yearOf(date);
+    return new CalendarDate(monthStarts[this.fiscalMonth(date) - 1]);
+  }
+
+  /** Get the last day of the fiscal month that the given date is in */
+  public endOfFiscalMonth(date: CalendarDate): CalendarDate {
+    return this.#endOfMonth(date, this.fiscalMonth(date));
+  }
+
+  /** Get the first day of the given fiscal year */
+  public yearStart(fiscalYear: number): CalendarDate {
+    return new CalendarDate(this.#year(this.#endYear(fiscalYear)).start);
+  }
+
+  /** Get the last day of the given fiscal year */
+  public yearEnd(fiscalYear: number): CalendarDate {
+    return new CalendarDate(this.#year(this.#endYear(fiscalYear)).end);
+  }
+
+  /**
+   * Get the number of weeks in the given fiscal year: 52 or 53. (For a fiscal year made of calendar months, this is
+   * always 53, as the last week is a partial week.)
+   */
+  public weeksInYear(fiscalYear: number): number {
+    const { start, end } = this.#year(this.#endYear(fiscalYear));
+    return Math.ceil((end - start + 1) / 7);
+  }
+
+  /** Convert the calendar year in which a fiscal year ends to its label */
+  #label(endYear: number): number {
+    return this.#options.yearLabel === "start" && this.#endMonth !== 12
+      ? endYear - 1
+      : endYear;
+  }
+
+  /** Convert a fiscal year label to the calendar year in which the fiscal year ends */
+  #endYear(fiscalYear: number): number {
+    if (!Number.isInteger(fiscalYear)) {
+      throw new Error(`Non-integer fiscal year.`);
+    }
+    return this.#options.yearLabel === "start" && this.#endMonth !== 12
+      ? fiscalYear + 1
+      : fiscalYear;
+  }
+
+  /** Internal helper: get the last day of the given fiscal month in the given date's fiscal year */
+  #endOfMonth(date: CalendarDate, month: number): CalendarDate {
+    const fiscalYear = this.#yearOf(date);
+    return new CalendarDate(
+      month === 12 ? fiscalYear.end : fiscalYear.monthStarts[month] - 1,
+    );
+  }
+
+  /**
+   * Get the value of the last day of the fiscal year that ends in the given calendar year. This also works for the years
+   * 0 and 10000, which a fiscal year at the very start or end of the supported range of dates may need, by finding it
+   * 400 years later or earlier (the calendar repeats every 400 years, including the days of the week).
+   */
+  #yearEndValue(endYear: number): number {
+    if (endYear < 1) {
+      return this.#yearEndValue(endYear + 400) - DAYS_IN_400_YEARS;
+    } else if (endYear > 9999) {
+      return this.#yearEndValue(endYear - 400) + DAYS_IN_400_YEARS;
+    }
+    const month = this.#endMonth;
+    const monthEnd = CalendarDate.create(
+      endYear,
+      month,
+      CalendarDate.daysInMonth(endYear, month),
+    );
+    const options = this.#options;
+    if (!("weekPattern" in options)) {
+      return monthEnd.value;
+    }
+    // How many days after the last fiscal year end day of the month is the last day of the month?
+    const daysAfter = (monthEnd.dayOfWeek - options.weekEndsOn + 7) % 7;
+    return options.yearEnd === "nearest" && daysAfter > 3
+      ? monthEnd.value - daysAfter + 7
+      : monthEnd.value - daysAfter;
+  }
+
+  /** Get the fiscal year that ends in the given calendar year */
+  #year(endYear: number): FiscalYear {
+    let fiscalYear = this.#years.get(endYear);
+    if (fiscalYear === undefined) {
+      const start = this.#yearEndValue(endYear - 1) + 1;
+      const end = this.#yearEndValue(endYear);
+      const monthStarts = [start];
+      const options = this.#options;
+      if ("weekPattern" in options) {
+        const pattern = WEEK_PATTERNS[options.weekPattern];
+        for (let month = 1; month < 12; month++) {
+          monthStarts.push(
+            monthStarts[month - 1] + pattern[(month - 1) % 3] * 7,
+          );
+        }
+      } else {
+        // The first month starts in the previous calendar year, unless the fiscal year is the same as the calendar year
+        let year = this.#endMonth === 12 ? endYear : endYear - 1;
+        let month = this.#endMonth % 12 + 1;
+        for (let i = 1; i < 12; i++) {
+          monthStarts.push(
+            monthStarts[i - 1] + CalendarDate.daysInMonth(year, month),
+          );
+          if (++month > 12) {
+            month = 1;
+            year++;
+          }
+        }
+      }
+      fiscalYear = Object.freeze({ endYear, start, end, monthStarts });
+      this.#years.set(endYear, fiscalYear);
+    }
+    return fiscalYear;
+  }
+
+  /** Get the fiscal year that the given date is in */
+  #yearOf(date: CalendarDate): FiscalYear {
+    // Usually the fiscal year ends in this calendar year, unless this date is after the fiscal year's end month.
+    // But a 52/53-week year can end a few days before or after the end of its end month.
+    let endYear = date.month > this.#endMonth ? date.year + 1 : date.year;
+    if (date.value > this.#yearEndValue(endYear)) {
+      endYear++;
+    } else if (date.value <= this.#yearEndValue(endYear - 1)) {
+      endYear--;
+    }
+    return this.#year(endYear);
+  }
+
+  // Pretty print in Deno
+  [Symbol.for("Deno.customInspect")](): string {
+    const options = this.#options;
+    return "weekPattern" in options
+      ? `FiscalCalendar {${options.weekPattern} weeks}`
+      : `FiscalCalendar {starts in month ${options.startMonth}}`;
+  }
+}
+
+export {
+  FiscalCalendar,
+  type FiscalCalendarMonthOptions,
+  type FiscalCalendarOptions,
+  type FiscalCalendarWeekOptions,
+  type FiscalYearLabel,
+};
@@ -0,0 +1,349 @@
+import { CalendarDate, D } from "./CalendarDate.ts";
+import { BusinessCalendar } from "./BusinessCalendar.ts";
+import {
+  CANADA_FEDERAL_HOLIDAYS,
+  easterSunday,
+  HolidayCalendar,
+  UK_BANK_HOLIDAYS,
+  US_FEDERAL_HOLIDAYS,
+} from "./HolidayCalendar.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+/** Summarize the holidays in a year as "name: date" or "name: date (observed date)" strings */
+const summarize = (calendar: HolidayCalendar, year: number) =>
+  calendar.holidaysInYear(year).map((h) =>
+    `${h.name}: ${h.date.toString()}` +
+    (h.observedDate.equals(h.date) ? "" : ` (${h.observedDate.toString()})`)
+  );
+
+Deno.test("easterSunday()", async (t) => {
+  const knownDates = [
+    "1818-03-22",
+    "1943-04-25",
+    "1961-04-02",
+    "2000-04-23",
+    "2024-03-31",
+    "2025-04-20",
+    "2038-04-25",
+    "2285-03-22",
+  ];
+  for (const date of knownDates) {
+    await t.step(`Easter in ${date.slice(0, 4)} is ${date}`, () => {
+      assertEquals(easterSunday(Number(date.slice(0, 4))).toString(), date);
+    });
+  }
+
+  await t.step("is always a Sunday from March 22 to April 25", () => {
+    for (let year = 1; year <= 9999; year++) {
+      const easter = easterSunday(year);
+      assertEquals(easter.dayOfWeek, 6);
+      const monthDay = easter.month * 100 + easter.day;
+      if (monthDay < 322 || monthDay > 425) {
+        throw new Error(`Easter ${easter.toString()} is out of range.`);
+      }
+    }
+  });
+});
+
+Deno.test("US federal holidays", async (t) => {
+  const calendar = new HolidayCalendar(US_FEDERAL_HOLIDAYS);
+  await t.step("2023", () => {
+    assertEquals(summarize(calendar, 2023), [
+      "New Year's Day: 2023-01-01 (2023-01-02)",
+      "Birthday of Martin Luther King, Jr.: 2023-01-16",
+      "Washington's Birthday: 2023-02-20",
+      "Memorial Day: 2023-05-29",
+      "Juneteenth National Independence Day: 2023-06-19",
+      "Independence Day: 2023-07-04",
+      "Labor Day: 2023-09-04",
+      "Columbus Day: 2023-10-09",
+      "Veterans Day: 2023-11-11 (2023-11-10)",
+      "Thanksgiving Day: 2023-11-23",
+      "Christmas Day: 2023-12-25",
+    ]);
+  });
+
+  await t.step("holidays that didn't exist yet", () => {
+    const names = calendar.holidaysInYear(1980).map((h) => h.name);
+    assertEquals(names.includes("Birthday of Martin Luther King, Jr."), false);
+    assertEquals(names.includes("Juneteenth National Independence Day"), false);
+  });
+
+  await t.step("observed in the previous year", () => {
+    // January 1, 2022 was a Saturday:
+    assertEquals(calendar.holidaysOn(D`2021-12-31`).map((h) => h.name), [
+      "New Year's Day",
+    ]);
+    const business = new BusinessCalendar({
+      holidays: calendar.toHolidayProvider(),
+    });
+    assertEquals(business.isBusinessDay(D`2021-12-31`), false);
+    assertEquals(
+      business.nextBusinessDay(D`2021-12-30`).toString(),
+      "2022-01-03",
+    );
+  });
+});
+
+Deno.test("UK bank holidays", async (t) => {
+  const calendar = new HolidayCalendar(UK_BANK_HOLIDAYS);
+  await t.step("2023", () => {
+    assertEquals(summarize(calendar, 2023), [
+      "New Year's Day: 2023-01-01 (2023-01-02)",
+      "Good Friday: 2023-04-07",
+      "Easter Monday: 2023-04-10",
+      "Early May bank holiday: 2023-05-01",
+      "Spring bank holiday: 2023-05-29",
+      "Summer bank holiday: 2023-08-28",
+      "Christmas Day: 2023-12-25",
+      "Boxing Day: 2023-12-26",
+    ]);
+  });
+
+  await t.step("substitute days skip other holidays", () => {
+    // Christmas on a Saturday, Boxing Day on a Sunday:
+    assertEquals(summarize(calendar, 2021).slice(-2), [
+      "Christmas Day: 2021-12-25 (2021-12-27)",
+      "Boxing Day: 2021-12-26 (2021-12-28)",
+    ]);
+    // Christmas on a Sunday, Boxing Day on a Monday:
+    assertEquals(summarize(calendar, 2022).slice(-2), [
+      "Christmas Day: 2022-12-25 (2022-12-27)",
+      "Boxing Day: 2022-12-26",
+    ]);
+  });
+});
+
+Deno.test("Canadian federal holidays", () => {
+  const calendar = new HolidayCalendar(CANADA_FEDERAL_HOLIDAYS);
+  assertEquals(summarize(calendar, 2023), [
+    "New Year's Day: 2023-01-01 (2023-01-02)",
+    "Good Friday: 2023-04-07",
+    "Victoria Day: 2023-05-22",
+    "Canada Day: 2023-07-01 (2023-07-03)",
+    "Labour Day: 2023-09-04",
+    "National Day for Truth and Reconciliation: 2023-09-30 (2023-10-02)",
+    "Thanksgiving Day: 2023-10-09",
+    "Remembrance Day: 2023-11-11 (2023-11-13)",
+    "Christmas Day: 2023-12-25",
+    "Boxing Day: 2023-12-26",
+  ]);
+  // Victoria Day is May 24 if that's a Monday:
+  assertEquals(
+    calendar.holidaysInYear(2021)[2].date.toString(),
+    "2021-05-24",
+  );
+});
+
+Deno.test("HolidayCalendar rules", async (t) => {
+  await t.step("nth weekday rules", () => {
+    const calendar = new HolidayCalendar([
+      {
+        type: "nthWeekday",
+        name: "Fifth Friday",
+        month: 3,
+        dayOfWeek: 4,
+        n: 5,
+      },
+      {
+        type: "nthWeekday",
+        name: "Second last Sunday",
+        month: 3,
+        dayOfWeek: 6,
+        n: -2,
+      },
+      {
+        type: "weekdayOnOrAfter",
+        name: "Election Day",
+        month: 11,
+        day: 2,
+        dayOfWeek: 1,
+      },
+    ]);
+    // March 2023 had five Fridays, but March 2025 only had four.
+    assertEquals(summarize(calendar, 2023), [
+      "Second last Sunday: 2023-03-19",
+      "Fifth Friday: 2023-03-31",
+      "Election Day: 2023-11-07",
+    ]);
+    assertEquals(summarize(calendar, 2025), [
+      "Second last Sunday: 2025-03-23",
+      "Election Day: 2025-11-04",
+    ]);
+  });
+
+  await t.step("February 29 only happens in leap years", () => {
+    const calendar = new HolidayCalendar([
+      {
+        type: "fixed",
+        name: "Leap Day",
+        month: 2,
+        day: 29,
+        observed: "nextMonday",
+      },
+    ]);
+    assertEquals(summarize(calendar, 2020), [
+      "Leap Day: 2020-02-29 (2020-03-02)",
+    ]);
+    assertEquals(summarize(calendar, 2021), []);
+  });
+
+  await t.step("work for every year from 1 to 9999", () => {
+    for (
+      const rules of [
+        US_FEDERAL_HOLIDAYS,
+        UK_BANK_HOLIDAYS,
+        CANADA_FEDERAL_HOLIDAYS,
+      ]
+    ) {
+      const calendar = new HolidayCalendar(rules);
+      for (const year of [1, 2, 1582, 9998, 9999]) {
+        for (const holiday of calendar.holidaysInYear(year)) {
+          assertEquals(holiday.date.year, year);
+        }
+      }
+    }
+    assertEquals(
+      new HolidayCalendar(UK_BANK_HOLIDAYS).holidaysOn(D`9999-12-28`).map((h) =>
+        h.name
+      ),
+      ["Boxing Day"],
+    );
+  });
+
+  await t.step("leave out dates outside of the supported range", () => {
+    const calendar = new HolidayCalendar([
+      { type: "easter", name: "Early", offset: -100 },
+      { type: "easter", name: "Late", offset: 100 },
+      {
+        type: "weekdayOnOrAfter",
+        name: "First Saturday from Dec. 31",
+        month: 12,
+        day: 31,
+        dayOfWeek: 5,
+      },
+      {
+        type: "weekdayOnOrBefore",
+        name: "Last Sunday up to Jan. 1",
+        month: 1,
+        day: 1,
+        dayOfWeek: 6,
+      },
+    ]);
+    // 0001-01-01 is a Monday, and 100 days before Easter (April 1) is in the year 0:
+    assertEquals(summarize(calendar, 1), [
+      "Late: 0001-07-10",
+      "First Saturday from Dec. 31: 0002-01-05",
+    ]);
+    // 9999-12-31 is a Friday, so the next Saturday is in the year 10000:
+    assertEquals(summarize(calendar, 9999), [
+      "Early: 9998-12-18",
+      "Last Sunday up to Jan. 1: 9998-12-27",
+      "Late: 9999-07-06",
+    ]);
+    CalendarDate.enableExtendedRange();
+    try {
+      const extended = new HolidayCalendar(calendar.rules);
+      assertEquals(summarize(extended, 1).slice(0, 2), [
+        "Early: 0000-12-22",
+        "Last Sunday up to Jan. 1: 0000-12-31",
+      ]);
+      assertEquals(
+        summarize(extended, 9999).at(-1),
+        "First Saturday from Dec. 31: +010000-01-01",
+      );
+    } finally {
+      CalendarDate.enableExtendedRange(false);
+    }
+  });
+});
+
+Deno.test("HolidayCalendar JSON rule format", async (t) => {
+  await t.step("round trip", () => {
+    const json = JSON.stringify(new HolidayCalendar(UK_BANK_HOLIDAYS));
+    const calendar = HolidayCalendar.fromJSON(json);
+    assertEquals(calendar.rules, UK_BANK_HOLIDAYS);
+    assertEquals(
+      summarize(calendar, 2021),
+      summarize(new HolidayCalendar(UK_BANK_HOLIDAYS), 2021),
+    );
+  });
+
+  await t.step("from a JSON string", () => {
+    const calendar = HolidayCalendar.fromJSON(`[
+      { "type": "fixed", "name": "Canada Day", "month": 7, "day": 1 },
+      { "type": "easter", "name": "Easter Sunday", "offset": 0 }
+    ]`);
+    assertEquals(summarize(calendar, 2024), [
+      "Easter Sunday: 2024-03-31",
+      "Canada Day: 2024-07-01",
+    ]);
+  });
+
+  const invalid: [unknown, string][] = [
+    [{ type: "fixed", month: 7, day: 1 }, "name is required."],
+    [{ type: "fixed", name: "X", month: 13, day: 1 }, "month must be 1-12."],
+    [{ type: "fixed", name: "X", month: 2, day: 30 }, "day is out of range."],
+    [
+      { type: "nthWeekday", name: "X", month: 2, dayOfWeek: 7, n: 1 },
+      "dayOfWeek must be 0-6.",
+    ],
+    [
+      { type: "nthWeekday", name: "X", month: 2, dayOfWeek: 0, n: 0 },
+      "n must be 1 to 5 or -1 to -5.",
+    ],
+    [
+      { type: "easter", name: "X", offset: 1.5 },
+      "offset must be an integer from -100 to 100.",
+    ],
+    [
+      { type: "fixed", name: "X", month: 1, day: 1, observed: "never" },
+      "observed must be one of",
+    ],
+    [
+      { type: "fixed", name: "X", month: 1, day: 1, fromYear: 0 },
+      "fromYear and toYear must be years from 1 to 9999.",
+    ],
+    [
+      {
+        type: "fixed",
+        name: "X",
+        month: 1,
+        day: 1,
+        fromYear: 2024,
+        toYear: 2023,
+      },
+      "toYear must not be before fromYear.",
+    ],
+    [{ type: "lunar", name: "X" }, "unknown rule type."],
+    [null, "rule must be an object."],
+  ];
+  for (const [rule, message] of invalid) {
+    await t.step(`rejects ${JSON.stringify(rule)}`, () => {
+      assertThrows(
+        () => HolidayCalendar.fromJSON([rule]),
+        Error,
+        message,
+      );
+    });
+  }
+  await t.step("rejects a non-array", () => {
+    assertThrows(
+      () => HolidayCalendar.fromJSON("{}"),
+      Error,
+      "Holiday rules must be an array.",
+    );
+  });
+});
+
+Deno.test("HolidayCalendar caches each year", () => {
+  const calendar = new HolidayCalendar(US_FEDERAL_HOLIDAYS);
+  assertEquals(
+    calendar.holidaysInYear(2023) === calendar.holidaysInYear(2023),
+    true,
+  );
+  const rule = { type: "fixed" as const, name: "X", month: 1, day: 1 };
+  const custom = new HolidayCalendar([rule]);
+  rule.month = 2; // Changing the original rule doesn't affect the calendar
+  assertEquals(custom.holidaysOn(CalendarDate.create(2023, 1, 1)).length, 1);
+});
@@ -0,0 +1,537 @@
+import { CalendarDate } from "./CalendarDate.ts";
+import type { HolidayProvider } from "./BusinessCalendar.ts";
+
+/**
+ * What to do when a holiday falls on a weekend (Saturday or Sunday):
+ * - "none": nothing; the holiday is observed on the day itself (the default)
+ * - "nextMonday": it's observed on the following Monday
+ * - "nearestWeekday": it's observed on Friday if it falls on Saturday, or Monday if it falls on Sunday
+ * - "nextAvailableWeekday": it's observed on the next weekday that isn't already a holiday, e.g. in the UK, when
+ *   Christmas is on a Saturday and Boxing Day is on a Sunday, they're observed on Monday and Tuesday.
+ */
+type ObservedRule =
+  | "none"
+  | "nextMonday"
+  | "nearestWeekday"
+  | "nextAvailableWeekday";
+
+/** Fields common to every type of holiday rule */
+interface BaseHolidayRule {
+  /** The name of the holiday, e.g. "Christmas Day" */
+  name: string;
+  /** What to do when the holiday falls on a weekend. Default: "none" */
+  observed?: ObservedRule;
+  /** The first year that this holiday exists (optional) */
+  fromYear?: number;
+  /** The last year that this holiday exists (optional) */
+  toYear?: number;
+}
+
+/** A holiday on the same date every year, e.g. December 25 */
+interface FixedHolidayRule extends BaseHolidayRule {
+  type: "fixed";
+  month: number;
+  day: number;
+}
+
+/**
+ * A holiday on the nth occurrence of some day of the week in a month, e.g. the fourth Thursday in November (n = 4), or
+ * the last Monday in May (n = -1).
+ */
+interface NthWeekdayHolidayRule extends BaseHolidayRule {
+  type: "nthWeekday";
+  month: number;
+  /** The day of the week (0 = Monday, 6 = Sunday) */
+  dayOfWeek: number;
+  /** 1 for the first occurrence in the month, 2 for the second, etc. or -1 for the last, -2 for second last, etc. */
+  n: number;
+}
+
+/**
+ * A holiday on the first occurrence of some day of the week on or after (or on or before) a date, e.g. Victoria Day in
+ * Canada is the Monday on or before May 24.
+ */
+interface WeekdayNearDateHolidayRule extends BaseHolidayRule {
+  type: "weekdayOnOrAfter" | "weekdayOnOrBefore";
+  month: number;
+  day: number;
+  /** The day of the week (0 = Monday, 6 = Sunday) */
+  dayOfWeek: number;
+}
+
+/** A holiday that is some number of days before or after (Western) Easter Sunday, e.g. Good Friday (offset = -2) */
+interface EasterHolidayRule extends BaseHolidayRule {
+  type: "easter";
+  /** The number of days after Easter Sunday (negative for days before) */
+  offset: number;
+}
+
+/**
+ * A rule that determines the date of a holiday in any given year. Rules are plain objects that can be stored as JSON,
+ * e.g. `{ "type": "nthWeekday", "name": "Labor Day", "month": 9, "dayOfWeek": 0, "n": 1 }`
+ */
+type HolidayRule =
+  | FixedHolidayRule
+  | NthWeekdayHolidayRule
+  | WeekdayNearDateHolidayRule
+  | EasterHolidayRule;
+
+/** A holiday in a specific year */
+interface Holiday {
+  name: string;
+  /** The date of the holiday */
+  date: CalendarDate;
+  /** The date the holiday is observed, which is different from `date` if it fell on a weekend */
+  observedDate: CalendarDate;
+}
+
+const OBSERVED_RULES: readonly string[] = [
+  "none",
+  "nextMonday",
+  "nearestWeekday",
+  "nextAvailableWeekday",
+];
+
+/**
+ * Get the date of (Western) Easter Sunday in the given year, using the "anonymous Gregorian algorithm" (also known as
+ * the Meeus/Jones/Butcher algorithm). Like CalendarDate, this uses the proleptic Gregorian calendar for all years.
+ */
+const easterSunday = (year: number): CalendarDate => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return CalendarDate.create(year, month, day);
+};
+
+/** Is the given date value in the range of dates that CalendarDate currently supports? */
+const isInRange = (value: number): boolean =>
+  value >= CalendarDate.minValue && value <= CalendarDate.maxValue;
+
+/** Check that a holiday rule is valid, and throw a descriptive error if not */
+const validateRule = (rule: HolidayRule): void => {
+  const fail = (problem: string): never => {
+    throw new Error(
+      `Invalid holiday rule (${JSON.stringify(rule)}): ${problem}`,
+    );
+  };
+  const isInt = (value: unknown, min: number, max: number) =>
+    Number.isInteger(value) && (value as number) >= min &&
+    (value as number) <= max;
+  if (typeof rule !== "object" || rule === null) {
+    fail(`rule must be an object.`);
+  } else if (typeof rule.name !== "string" || rule.name === "") {
+    fail(`name is required.`);
+  } else if (
+    rule.observed !== undefined && !OBSERVED_RULES.includes(rule.observed)
+  ) {
+    fail(`observed must be one of ${OBSERVED_RULES.join(", ")}.`);
+  } else if (
+    (rule.fromYear !== undefined && !isInt(rule.fromYear, 1, 9999)) ||
+    (rule.toYear !== undefined && !isInt(rule.toYear, 1, 9999))
+  ) {
+    fail(`fromYear and toYear must be years from 1 to 9999.`);
+  } else if (
+    rule.fromYear !== undefined && rule.toYear !== undefined &&
+    rule.fromYear > rule.toYear
+  ) {
+    fail(`toYear must not be before fromYear.`);
+  }
+  switch (rule.type) {
+    case "fixed":
+    case "weekdayOnOrAfter":
+    case "weekdayOnOrBefore":
+      if (!isInt(rule.month, 1, 12)) fail(`month must be 1-12.`);
+      // Allow February 29, which only happens in leap years:
+      if (!isInt(rule.day, 1, CalendarDate.daysInMonth(2000, rule.month))) {
+        fail(`day is out of range.`);
+      }
+      if (rule.type !== "fixed" && !isInt(rule.dayOfWeek, 0, 6)) {
+        fail(`dayOfWeek must be 0-6.`);
+      }
+      break;
+    case "nthWeekday":
+      if (!isInt(rule.month, 1, 12)) fail(`month must be 1-12.`);
+      if (!isInt(rule.dayOfWeek, 0, 6)) fail(`dayOfWeek must be 0-6.`);
+      if (!isInt(rule.n, -5, 5) || rule.n === 0) {
+        fail(`n must be 1 to 5 or -1 to -5.`);
+      }
+      break;
+    case "easter":
+      if (!isInt(rule.offset, -100, 100)) {
+        fail(`offset must be an integer from -100 to 100.`);
+      }
+      break;
+    default:
+      fail(`unknown rule type.`);
+  }
+};
+
+/**
+ * A set of rules for determining holidays, which can compute the holidays in any year from 1 to 9999.
+ *
+ * This can be used with BusinessCalendar to skip holidays when doing business day arithmetic:
+ * `new BusinessCalendar({ holidays: holidayCalendar.toHolidayProvider() })`
+ */
+class HolidayCalendar {
+  readonly #rules: readonly HolidayRule[];
+  /** Cache of the holidays in each year */
+  readonly #holidays = new Map<number, readonly Holiday[]>();
+
+  /**
+   * Construct a HolidayCalendar from a JSON array of holiday rules (as a string, or already parsed).
+   * Throws an error if any of the rules are invalid.
+   */
+  public static fromJSON(json: string | unknown[]): HolidayCalendar {
+    const rules = typeof json === "string" ? JSON.parse(json) : json;
+    if (!Array.isArray(rules)) {
+      throw new Error(`Holiday rules must be an array.`);
+    }
+    return new HolidayCalendar(rules);
+  }
+
+  constructor(rules: readonly HolidayRule[]) {
+    rules.forEach(validateRule);
+    this.#rules = Object.freeze(
+      rules.map((rule) => Object.freeze({ ...rule })),
+    );
+  }
+
+  /** Get the rules that define this holiday calendar */
+  public get rules(): readonly HolidayRule[] {
+    return this.#rules;
+  }
+
+  /**
+   * Get the holidays in the given year, in order by date. A holiday's observed date may be in a different year, e.g.
+   * if January 1 is a Saturday, it may be observed on December 31 of the previous year.
+   */
+  public holidaysInYear(year: number): readonly Holiday[] {
+    let holidays = this.#holidays.get(year);
+    if (holidays === undefined) {
+      holidays = this.#computeHolidays(year);
+      this.#holidays.set(year, holidays);
+    }
+    return holidays;
+  }
+
+  /** Get the holidays that fall on, or are observed on, the given date (usually none or one) */
+  public holidaysOn(date: CalendarDate): Holiday[] {
+    const value = date.value;
+    const result: Holiday[] = [];
+    for (const year of [date.year - 1, date.year, date.year + 1]) {
+      if (year >= 1 && year <= 9999) {
+        result.push(
+          ...this.holidaysInYear(year).filter((holiday) =>
+            holiday.date.value === value || holiday.observedDate.value === value
+          ),
+        );
+      }
+    }
+    return result;
+  }
+
+  /** Get a HolidayProvider for use with BusinessCalendar, which provides the observed dates of the holidays */
+  public toHolidayProvider(): HolidayProvider {
+    return (year) =>
+      this.holidaysInYear(year).map((holiday) => holiday.observedDate);
+  }
+
+  /** JSON serialization - as an array of rules, which can be loaded using HolidayCalendar.fromJSON() */
+  public toJSON(): readonly HolidayRule[] {
+    return this.#rules;
+  }
+
+  #computeHolidays(year: number): readonly Holiday[] {
+    const values: (number | undefined)[] = this.#rules.map((rule) => {
+      if (
+        (rule.fromYear !== undefined && year < rule.fromYear) ||
+        (rule.toYear !== undefined && year > rule.toYear)
+      ) {
+        return undefined;
+      }
+      switch (rule.type) {
+        case "fixed":
+          return rule.day <= CalendarDate.daysInMonth(year, rule.month)
+            ? CalendarDate.create(year, rule.month, rule.day).value
+            : undefined; // February 29 in a non-leap year
+        case "nthWeekday":
+          return CalendarDate.nthWeekdayOfMonth(
+            year,
+            rule.month,
+            rule.dayOfWeek,
+            rule.n,
+          )?.value;
+        case "weekdayOnOrAfter": {
+          const date = CalendarDate.create(year, rule.month, rule.day);
+          return date.value + (rule.dayOfWeek - date.dayOfWeek + 7) % 7;
+        }
+        case "weekdayOnOrBefore": {
+          const date = CalendarDate.create(year, rule.month, rule.day);
+          return date.value - (date.dayOfWeek - rule.dayOfWeek + 7) % 7;
+        }
+        case "easter":
+          return easterSunday(year).value + rule.offset;
+      }
+    });
+    // Leave out holidays that are outside of the supported range of dates, e.g. 100 days before Easter in the year 1
+    const dates = values.map((value) =>
+      value !== undefined && isInRange(value)
+        ? new CalendarDate(value)
+        : undefined
+    );
+
+    // "nextAvailableWeekday" needs to know which weekdays are already taken by other holidays:
+    const taken = new Set<number>();
+    for (const date of dates) {
+      if (date && date.dayOfWeek < 5) {
+        taken.add(date.value);
+      }
+    }
+    const holidays: Holiday[] = [];
+    this.#rules.forEach((rule, i) => {
+      const date = dates[i];
+      if (date === undefined) {
+        return;
+      }
+      let observedValue = date.value;
+      const dayOfWeek = date.dayOfWeek;
+      if (dayOfWeek >= 5) { // Saturday or Sunday
+        switch (rule.observed ?? "none") {
+          case "nextMonday":
+            observedValue += 7 - dayOfWeek;
+            break;
+          case "nearestWeekday":
+            observedValue += dayOfWeek === 5 ? -1 : 1;
+            break;
+          case "nextAvailableWeekday": {
+            observedValue += 7 - dayOfWeek;
+            while (taken.has(observedValue) || (observedValue + 5) % 7 >= 5) {
+              observedValue++;
+            }
+            taken.add(observedValue);
+            break;
+          }
+        }
+      }
+      if (!isInRange(observedValue)) {
+        return; // e.g. observed on the next available weekday, which is after the end of the supported range
+      }
+      const observedDate = observedValue === date.value
+        ? date
+        : new CalendarDate(observedValue);
+      holidays.push({ name: rule.name, date, observedDate });
+    });
+    return Object.freeze(
+      holidays.sort((a, b) => a.date.value - b.date.value),
+    );
+  }
+
+  // Pretty print in Deno
+  [Symbol.for("Deno.customInspect")](): string {
+    return `HolidayCalendar {${this.#rules.length} rules}`;
+  }
+}
+
+/**
+ * Example rule set: United States federal holidays (5 U.S.C. 6103), as currently defined. Historical changes before
+ * 1971 are not included.
+ */
+const US_FEDERAL_HOLIDAYS: readonly HolidayRule[] = Object.freeze([
+  {
+    type: "fixed",
+    name: "New Year's Day",
+    month: 1,
+    day: 1,
+    observed: "nearestWeekday",
+  },
+  {
+    type: "nthWeekday",
+    name: "Birthday of Martin Luther King, Jr.",
+    month: 1,
+    dayOfWeek: 0,
+    n: 3,
+    fromYear: 1986,
+  },
+  {
+    type: "nthWeekday",
+    name: "Washington's Birthday",
+    month: 2,
+    dayOfWeek: 0,
+    n: 3,
+  },
+  { type: "nthWeekday", name: "Memorial Day", month: 5, dayOfWeek: 0, n: -1 },
+  {
+    type: "fixed",
+    name: "Juneteenth National Independence Day",
+    month: 6,
+    day: 19,
+    observed: "nearestWeekday",
+    fromYear: 2021,
+  },
+  {
+    type: "fixed",
+    name: "Independence Day",
+    month: 7,
+    day: 4,
+    observed: "nearestWeekday",
+  },
+  { type: "nthWeekday", name: "Labor Day", month: 9, dayOfWeek: 0, n: 1 },
+  { type: "nthWeekday", name: "Columbus Day", month: 10, dayOfWeek: 0, n: 2 },
+  {
+    type: "fixed",
+    name: "Veterans Day",
+    month: 11,
+    day: 11,
+    observed: "nearestWeekday",
+  },
+  {
+    type: "nthWeekday",
+    name: "Thanksgiving Day",
+    month: 11,
+    dayOfWeek: 3,
+    n: 4,
+  },
+  {
+    type: "fixed",
+    name: "Christmas Day",
+    month: 12,
+    day: 25,
+    observed: "nearestWeekday",
+  },
+]);
+
+/**
+ * Example rule set: bank holidays in England and Wales. One-off changes (like the moved May bank holiday in 2020) are
+ * not included.
+ */
+const UK_BANK_HOLIDAYS: readonly HolidayRule[] = Object.freeze([
+  {
+    type: "fixed",
+    name: "New Year's Day",
+    month: 1,
+    day: 1,
+    observed: "nextAvailableWeekday",
+  },
+  { type: "easter", name: "Good Friday", offset: -2 },
+  { type: "easter", name: "Easter Monday", offset: 1 },
+  {
+    type: "nthWeekday",
+    name: "Early May bank holiday",
+    month: 5,
+    dayOfWeek: 0,
+    n: 1,
+  },
+  {
+    type: "nthWeekday",
+    name: "Spring bank holiday",
+    month: 5,
+    dayOfWeek: 0,
+    n: -1,
+  },
+  {
+    type: "nthWeekday",
+    name: "Summer bank holiday",
+    month: 8,
+    dayOfWeek: 0,
+    n: -1,
+  },
+  {
+    type: "fixed",
+    name: "Christmas Day",
+    month: 12,
+    day: 25,
+    observed: "nextAvailableWeekday",
+  },
+  {
+    type: "fixed",
+    name: "Boxing Day",
+    month: 12,
+    day: 26,
+    observed: "nextAvailableWeekday",
+  },
+]);
+
+/** Example rule set: Canadian federal statutory holidays (Canada Labour Code) */
+const CANADA_FEDERAL_HOLIDAYS: readonly HolidayRule[] = Object.freeze([
+  {
+    type: "fixed",
+    name: "New Year's Day",
+    month: 1,
+    day: 1,
+    observed: "nextAvailableWeekday",
+  },
+  { type: "easter", name: "Good Friday", offset: -2 },
+  {
+    type: "weekdayOnOrBefore",
+    name: "Victoria Day",
+    month: 5,
+    day: 24,
+    dayOfWeek: 0,
+  },
+  {
+    type: "fixed",
+    name: "Canada Day",
+    month: 7,
+    day: 1,
+    observed: "nextAvailableWeekday",
+  },
+  { type: "nthWeekday", name: "Labour Day", month: 9, dayOfWeek: 0, n: 1 },
+  {
+    type: "fixed",
+    name: "National Day for Truth and Reconciliation",
+    month: 9,
+    day: 30,
+    observed: "nextAvailableWeekday",
+    fromYear: 2021,
+  },
+  {
+    type: "nthWeekday",
+    name: "Thanksgiving Day",
+    month: 10,
+    dayOfWeek: 0,
+    n: 2,
+  },
+  {
+    type: "fixed",
+    name: "Remembrance Day",
+    month: 11,
+    day: 11,
+    observed: "nextAvailableWeekday",
+  },
+  {
+    type: "fixed",
+    name: "Christmas Day",
+    month: 12,
+    day: 25,
+    observed: "nextAvailableWeekday",
+  },
+  {
+    type: "fixed",
+    name: "Boxing Day",
+    month: 12,
+    day: 26,
+    observed: "nextAvailableWeekday",
+  },
+]);
+
+export {
+  CANADA_FEDERAL_HOLIDAYS,
+  easterSunday,
+  type Holiday,
+  HolidayCalendar,
+  type HolidayRule,
+  type ObservedRule,
+  UK_BANK_HOLIDAYS,
+  US_FEDERAL_HOLIDAYS,
+};
@@ -0,0 +1,209 @@
+import { CalendarDate, D } from "./CalendarDate.ts";
+import { IntlCalendarView } from "./IntlCalendarView.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("IntlCalendarView fields", async (t) => {
+  const cases: [string, string, string][] = [
+    // [calendar, date, "era year-monthCode-day (month)"]
+    ["hebrew", "2024-02-10", "am 5784-M05L-1 (6)"], // 1 Adar I, in a leap year
+    ["hebrew", "2024-03-11", "am 5784-M06-1 (7)"], // 1 Adar II
+    ["hebrew", "2023-03-22", "am 5783-M06-29 (6)"], // 29 Adar, not in a leap year
+    ["hebrew", "2023-09-16", "am 5784-M01-1 (1)"], // Rosh Hashanah
+    ["islamic-umalqura", "2024-03-11", "ah 1445-M09-1 (9)"], // 1 Ramadan
+    ["persian", "2024-03-20", "ap 1403-M01-1 (1)"], // Nowruz
+    ["japanese", "1989-01-07", "showa 64-M01-7 (1)"],
+    ["japanese", "1989-01-08", "heisei 1-M01-8 (1)"],
+    ["japanese", "2019-05-01", "reiwa 1-M05-1 (5)"],
+    ["japanese", "1688-01-01", "ce 1688-M01-1 (1)"], // Before the Meiji era
+    ["coptic", "0284-08-28", "am 0-M13-5 (13)"],
+    ["ethiopic", "0008-08-26", "aa 5500-M13-5 (13)"],
+    ["buddhist", "2024-03-11", "be 2567-M03-11 (3)"],
+    ["roc", "2024-03-11", "roc 113-M03-11 (3)"],
+    ["roc", "1911-12-31", "broc 1-M12-31 (12)"],
+    ["chinese", "2023-03-22", "undefined 2023-M02L-1 (3)"], // A leap month
+    ["chinese", "2024-02-10", "undefined 2024-M01-1 (1)"], // Chinese New Year
+  ];
+  for (const [calendar, date, expected] of cases) {
+    await t.step(`${date} in the ${calendar} calendar`, () => {
+      const view = new IntlCalendarView(calendar);
+      const fields = view.toFields(D`${date}`);
+      assertEquals(
+        `${fields.era} ${fields.year}-${fields.monthCode}-${fields.day} (${fields.month})`,
+        expected,
+      );
+      assertEquals(view.fromFields(fields).toString(), date);
+      assertEquals(
+        view.fromFields({ ...fields, month: undefined }).toString(),
+        date,
+      );
+      assertEquals(
+        view.fromFields({ ...fields, monthCode: undefined }).toString(),
+        date,
+      );
+    });
+  }
+
+  await t.step("round trip every day of a year", () => {
+    for (const calendar of ["hebrew", "persian", "islamic-civil", "japanese"]) {
+      const view = new IntlCalendarView(calendar);
+      for (let date = D`2019-01-01`; date.year < 2020; date = date.addDays(1)) {
+        assertEquals(
+          view.fromFields(view.toFields(date)).toString(),
+          date.toString(),
+        );
+      }
+    }
+  });
+});
+
+Deno.test("IntlCalendarView.fromFields()", () => {
+  const hebrew = new IntlCalendarView("hebrew");
+  assertEquals(
+    hebrew.fromFields({ year: 5784, monthCode: "M05L", day: 30 }).toString(),
+    "2024-03-10",
+  );
+  assertThrows(
+    () => hebrew.fromFields({ year: 5783, monthCode: "M05L", day: 1 }),
+    Error,
+    "Month out of range.",
+  );
+  assertThrows(
+    () => hebrew.fromFields({ year: 5783, month: 13, day: 1 }),
+    Error,
+    "Month out of range.",
+  );
+  assertThrows(
+    () => hebrew.fromFields({ year: 5783, month: 6, day: 30 }), // Adar only has 29 days
+    Error,
+    "Day out of range.",
+  );
+  assertThrows(
+    () => hebrew.fromFields({ year: 5783, day: 1 }),
+    Error,
+    "Either a month or a month code is required.",
+  );
+  assertThrows(
+    () => hebrew.fromFields({ era: "ce", year: 5783, month: 1, day: 1 }),
+    Error,
+    'Unknown era "ce" in the hebrew calendar.',
+  );
+  assertThrows(
+    () => hebrew.fromFields({ year: 20000, month: 1, day: 1 }),
+    Error,
+    "Year out of range.",
+  );
+
+  const japanese = new IntlCalendarView("japanese");
+  // The era defaults to the latest one:
+  assertEquals(
+    japanese.fromFields({ year: 6, month: 3, day: 11 }).toString(),
+    "2024-03-11",
+  );
+  assertEquals(
+    japanese.fromFields({ era: "meiji", year: 33, month: 1, day: 1 })
+      .toString(),
+    "1900-01-01",
+  );
+  assertEquals(
+    japanese.fromFields({ era: "showa", year: 64, month: 1, day: 7 })
+      .toString(),
+    "1989-01-07",
+  );
+  // Era codes don't depend on how Intl names the eras:
+  assertThrows(
+    () => japanese.fromFields({ era: "Shōwa", year: 64, month: 1, day: 7 }),
+    Error,
+    'Unknown era "Shōwa" in the japanese calendar.',
+  );
+  // Heisei started on Jan. 8, 1989:
+  assertThrows(
+    () => japanese.fromFields({ era: "heisei", year: 1, month: 1, day: 7 }),
+    Error,
+    "Day out of range.",
+  );
+  assertThrows(
+    () => japanese.fromFields({ era: "heisei", year: 32, month: 5, day: 1 }),
+    Error,
+    "Year out of range.",
+  );
+
+  // Years count down before 1912 in the ROC calendar:
+  const roc = new IntlCalendarView("roc");
+  assertEquals(
+    roc.fromFields({ era: "broc", year: 2, month: 1, day: 1 }).toString(),
+    "1910-01-01",
+  );
+});
+
+Deno.test("IntlCalendarView.addMonths()", () => {
+  const hebrew = new IntlCalendarView("hebrew");
+  // 1 Adar I 5784, plus one month is 1 Adar II, and plus 13 months is the next 1 Adar (in a year with no Adar I):
+  assertEquals(hebrew.addMonths(D`2024-02-10`, 1).toString(), "2024-03-11");
+  assertEquals(hebrew.addMonths(D`2024-02-10`, 13).toString(), "2025-03-01");
+  assertEquals(hebrew.addMonths(D`2025-03-01`, -13).toString(), "2024-02-10");
+  assertEquals(hebrew.addMonths(D`2024-02-10`, 0).toString(), "2024-02-10");
+
+  // 30 Sha'ban 1444, plus one month; Ramadan 1444 only had 29 days:
+  const islamic = new IntlCalendarView("islamic-umalqura");
+  const date = D`2023-03-22`;
+  assertEquals(islamic.addMonths(date, 1).toString(), "2023-04-20");
+  assertEquals(
+    islamic.addMonths(date, 1, { overflow: "rollover" }).toString(),
+    "2023-04-21",
+  );
+  assertThrows(
+    () => islamic.addMonths(date, 1, { overflow: "reject" }),
+    Error,
+    "Day out of range (the month only has 29 days).",
+  );
+  // 29 Ramadan was the last day of the month, so with "endOfMonth" it stays at the end of the month:
+  assertEquals(
+    islamic.addMonths(D`2023-04-20`, 1, { overflow: "endOfMonth" }).toString(),
+    "2023-05-20", // 30 Shawwal
+  );
+  assertEquals(islamic.addMonths(D`2023-04-20`, 1).toString(), "2023-05-19");
+  assertThrows(
+    () => islamic.addMonths(date, 0.5),
+    Error,
+    "Non-integer number of months.",
+  );
+});
+
+Deno.test("IntlCalendarView errors", () => {
+  assertThrows(
+    () => new IntlCalendarView("klingon"),
+    Error,
+    'Unsupported calendar "klingon".',
+  );
+  assertThrows(
+    () => new IntlCalendarView("not a calendar"),
+    Error,
+    'Unsupported calendar "not a calendar".',
+  );
+  assertEquals(new IntlCalendarView("persian").calendar, "persian");
+});
+
+Deno.test("IntlCalendarView only supports years 1-9999", () => {
+  const hebrew = new IntlCalendarView("hebrew");
+  CalendarDate.enableExtendedRange();
+  try {
+    assertThrows(
+      () => hebrew.toFields(CalendarDate.fromString("-000044-03-15")),
+      RangeError,
+      "Date (-000044-03-15) out of range for a calendar view.",
+    );
+    assertThrows(
+      () => hebrew.addMonths(D`+010000-01-01`, -1),
+      RangeError,
+      "Date (+010000-01-01) out of range for a calendar view.",
+    );
+    assertThrows(
+      () => hebrew.addMonths(D`9999-12-31`, 1),
+      RangeError,
+      "out of range for a calendar view.",
+    );
+    assertEquals(hebrew.toFields(D`9999-12-31`).year, 13760);
+  } finally {
+    CalendarDate.enableExtendedRange(false);
+  }
+});
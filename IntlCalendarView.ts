@@ -0,0 +1,432 @@
+import { type AddMonthsOptions, CalendarDate, D } from "./CalendarDate.ts";
+import { GREGORIAN_REFORM } from "./ReformCalendar.ts";
+
+/** The fields of a date in some calendar, from IntlCalendarView.toFields() */
+interface IntlCalendarFields {
+  /**
+   * The era, as a Temporal era code (e.g. "am" in the Hebrew calendar, "reiwa" in the Japanese calendar), or undefined
+   * in calendars without eras (e.g. "chinese")
+   */
+  era: string | undefined;
+  /** The year, within the era if there is one (e.g. 5784 in the Hebrew calendar, 6 in the Japanese calendar) */
+  year: number;
+  /** The month (1 for the first month of the year), counting leap months, so the same month can have different numbers */
+  month: number;
+  /**
+   * An identifier for the month that is the same in every year, like the month codes used by Temporal: "M01" to "M13",
+   * with an "L" suffix for leap months (e.g. "M05L" for Adar I in the Hebrew calendar)
+   */
+  monthCode: string;
+  /** The day of the month */
+  day: number;
+}
+
+/** The fields needed to construct a date in some calendar, for IntlCalendarView.fromFields() */
+interface IntlCalendarFieldsInput {
+  /** The era code. Default: the latest era of the calendar (e.g. "reiwa" in the Japanese calendar) */
+  era?: string;
+  year: number;
+  /** The month number. Either this or monthCode is required. */
+  month?: number;
+  /** The month code, e.g. "M05L". Either this or month is required. */
+  monthCode?: string;
+  day: number;
+}
+
+/** The parts of a date as formatted by Intl, with the era code from ERAS */
+interface DateParts {
+  era: string | undefined;
+  year: number;
+  /** The month as formatted: a number, a number with "bis" for a leap month, or a name (Hebrew) */
+  month: string;
+  day: number;
+}
+
+/** A range of dates that are all in the same era */
+interface EraRange {
+  era: string | undefined;
+  /** The value of the first and last dates in this era */
+  start: number;
+  end: number;
+  /** The years of the first and last dates in this era */
+  startYear: number;
+  endYear: number;
+}
+
+/** The values of 0001-01-01 and 9999-12-31: calendar views don't support CalendarDate's extended range */
+const MIN_VALUE = 366;
+const MAX_VALUE = 3652424;
+
+/** Check that a date is in years 1-9999, and throw an error if not */
+const validateValue = (value: number): void => {
+  if (value < MIN_VALUE || value > MAX_VALUE) {
+    throw new RangeError(
+      `Date (${new CalendarDate(value)}) out of range for a calendar view.`,
+    );
+  }
+};
+
+/** An era of some calendar, from the date it starts on */
+interface EraStart {
+  /** The Temporal era code, e.g. "reiwa" */
+  era: string;
+  /** The value of the first date in this era */
+  start: number;
+  /** Convert the year given by Intl to the year in this era, if they differ */
+  year?: (year: number, value: number) => number;
+}
+
+/** The eras of a calendar with only one era in years 1-9999 */
+const onlyEra = (era: string): EraStart[] => [{ era, start: MIN_VALUE }];
+
+/**
+ * The eras of each supported calendar in years 1-9999, latest first. Intl's names for eras (e.g. "B.R.O.C." or
+ * "Shōwa") depend on the version of ICU, so dates are matched to eras by when the eras start, and given Temporal's
+ * era codes instead.
+ */
+const ERAS: Readonly<Record<string, readonly EraStart[]>> = {
+  buddhist: onlyEra("be"),
+  chinese: [],
+  coptic: [
+    { era: "am", start: D`0284-08-29`.value },
+    // Intl counts the years before this era down from 1, but Temporal numbers them 0, -1, -2, ...
+    { era: "am", start: MIN_VALUE, year: (year) => 1 - year },
+  ],
+  dangi: [],
+  ethioaa: onlyEra("aa"),
+  ethiopic: [
+    { era: "am", start: D`0008-08-27`.value },
+    { era: "aa", start: MIN_VALUE },
+  ],
+  gregory: onlyEra("ce"),
+  hebrew: onlyEra("am"),
+  indian: onlyEra("shaka"),
+  islamic: onlyEra("ah"),
+  "islamic-civil": onlyEra("ah"),
+  "islamic-rgsa": onlyEra("ah"),
+  "islamic-tbla": onlyEra("ah"),
+  "islamic-umalqura": onlyEra("ah"),
+  iso8601: [],
+  japanese: [
+    { era: "reiwa", start: D`2019-05-01`.value },
+    { era: "heisei", start: D`1989-01-08`.value },
+    { era: "showa", start: D`1926-12-25`.value },
+    { era: "taisho", start: D`1912-07-30`.value },
+    { era: "meiji", start: D`1868-09-08`.value },
+    // Like Temporal, use "ce" instead of the hundreds of earlier eras, with the Julian year before Oct. 15, 1582 (to
+    // match the month and day from Intl):
+    {
+      era: "ce",
+      start: MIN_VALUE,
+      year: (_year, value) =>
+        GREGORIAN_REFORM.toTriplet(new CalendarDate(value)).year,
+    },
+  ],
+  persian: onlyEra("ap"),
+  roc: [
+    { era: "roc", start: D`1912-01-01`.value },
+    { era: "broc", start: MIN_VALUE },
+  ],
+};
+
+/** How many days to step forward by when looking for the end of an era. Shorter eras are still found. */
+const ERA_SEARCH_STEP = 4000;
+
+/** Calendars with leap months, where the month number isn't enough to identify a month */
+const LEAP_MONTH_CALENDARS = new Set(["hebrew", "chinese", "dangi"]);
+
+/**
+ * A view of dates in a calendar other than the Gregorian calendar, such as the Hebrew, Islamic, Persian, Japanese or
+ * Buddhist calendar, using the calendar data built in to Intl. Dates are still CalendarDates; this gets their year,
+ * month and day in the other calendar, constructs dates from those fields, and does arithmetic with the other
+ * calendar's months.
+ *
+ * The calendar is one of the calendar identifiers supported by Intl, e.g. "hebrew", "islamic-umalqura", "persian",
+ * "japanese", "buddhist", "roc", "chinese", "ethiopic", "coptic" or "indian". Note that calendars derived from the
+ * Gregorian calendar (like "japanese", "buddhist" and "roc") use the Julian calendar for dates before Oct. 15, 1582.
+ *
+ * Only dates in (Gregorian) years 1-9999 are supported, even if CalendarDate.enableExtendedRange() has been called.
+ */
+class IntlCalendarView {
+  readonly #calendar: string;
+  readonly #formatter: Intl.DateTimeFormat;
+  readonly #eraStarts: readonly EraStart[];
+  /** The eras of this calendar, in order, once they've been computed */
+  #eras: readonly EraRange[] | undefined;
+
+  /** @param calendar An Intl calendar identifier, e.g. "hebrew" */
+  constructor(calendar: string) {
+    let formatter: Intl.DateTimeFormat | undefined;
+    try {
+      formatter = new Intl.DateTimeFormat(`en-u-ca-${calendar}-nu-latn`, {
+        timeZone: "UTC",
+        era: "short",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+      });
+    } catch {
+      // Not a valid calendar identifier
+    }
+    if (
+      formatter?.resolvedOptions().calendar !== calendar ||
+      !Object.hasOwn(ERAS, calendar)
+    ) {
+      // Intl silently falls back to the Gregorian calendar for calendars that it doesn't support
+      throw new Error(`Unsupported calendar "${calendar}".`);
+    }
+    this.#calendar = calendar;
+    this.#formatter = formatter;
+    this.#eraStarts = ERAS[calendar];
+  }
+
+  /** The calendar identifier, e.g. "hebrew" */
+  public get calendar(): string {
+    return this.#calendar;
+  }
+
+  /** Get the year, month, and day of a date in this calendar */
+  public toFields(date: CalendarDate): IntlCalendarFields {
+    const value = date.value;
+    validateValue(value);
+    const parts = this.#parts(value);
+    const { month, monthCode } = this.#month(value, parts);
+    return {
+      era: parts.era,
+      year: parts.year,
+      month,
+      monthCode,
+      day: parts.day,
+    };
+  }
+
+  /**
+   * Construct a CalendarDate from its fields in this calendar. Throws an error if the date doesn't exist, e.g. Adar I
+   * ("M05L") in a Hebrew year that isn't a leap year.
+   */
+  public fromFields(fields: IntlCalendarFieldsInput): CalendarDate {
+    const { year, month, monthCode, day } = fields;
+    if (month === undefined && monthCode === undefined) {
+      throw new Error(`Either a month or a month code is required.`);
+    }
+    const eras = this.#getEras();
+    const era = fields.era === undefined
+      ? eras[eras.length - 1]
+      : eras.find((era) => era.era === fields.era);
+    if (era === undefined) {
+      throw new Error(
+        `Unknown era "${fields.era}" in the ${this.#calendar} calendar.`,
+      );
+    }
+    // Find the first day of the year. In some eras (e.g. "BC") the years count down, not up.
+    const direction = era.endYear < era.startYear ? -1 : 1;
+    let low = era.start, high = era.end + 1;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (direction * this.#parts(mid).year < direction * year) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    const yearStart = low;
+    if (yearStart > era.end || this.#parts(yearStart).year !== year) {
+      throw new Error(`Year out of range.`);
+    }
+    // Then find the month, which may have started before the era did:
+    for (
+      let monthStart = yearStart - this.#parts(yearStart).day + 1, i = 1;;
+      monthStart = this.#nextMonthStart(monthStart), i++
+    ) {
+      const first = Math.max(monthStart, yearStart);
+      const parts = this.#parts(first);
+      if (parts.year !== year || parts.era !== era.era || first > era.end) {
+        throw new Error(`Month out of range.`);
+      }
+      // (Calendars with leap months don't have eras that start mid-year, so i is the month number for them.)
+      const found = this.#month(first, parts, i);
+      if (
+        (month === undefined || found.month === month) &&
+        (monthCode === undefined || found.monthCode === monthCode)
+      ) {
+        const value = monthStart + day - 1;
+        const result = Number.isInteger(day) ? this.#parts(value) : undefined;
+        if (
+          result?.day !== day || result.month !== parts.month ||
+          result.year !== year || result.era !== era.era
+        ) {
+          throw new Error(`Day out of range.`);
+        }
+        return new CalendarDate(value);
+      }
+    }
+  }
+
+  /**
+   * Add the given number of months in this calendar, e.g. adding one month to 1 Adar I 5784 in the Hebrew calendar
+   * gives 1 Adar II 5784. If the resulting month doesn't have enough days, the overflow option says what to do, just
+   * like CalendarDate.addMonths().
+   */
+  public addMonths(
+    date: CalendarDate,
+    delta: number,
+    options: AddMonthsOptions = {},
+  ): CalendarDate {
+    const overflow = options.overflow ?? "constrain";
+    const value = date.value;
+    validateValue(value);
+    if (!Number.isInteger(delta)) {
+      throw new Error(`Non-integer number of months.`);
+    }
+    const day = this.#parts(value).day;
+    const originalStart = value - day + 1;
+    let start = originalStart;
+    for (let i = 0; i < Math.abs(delta); i++) {
+      start = delta > 0
+        ? this.#nextMonthStart(start)
+        : this.#previousMonthStart(start);
+    }
+    const maxDay = this.#nextMonthStart(start) - start;
+    let newDay = day;
+    if (
+      overflow === "endOfMonth" &&
+      day === this.#nextMonthStart(originalStart) - originalStart
+    ) {
+      newDay = maxDay;
+    } else if (day > maxDay) {
+      if (overflow === "reject") {
+        throw new Error(
+          `Day out of range (the month only has ${maxDay} days).`,
+        );
+      } else if (overflow !== "rollover") {
+        newDay = maxDay;
+      }
+    }
+    validateValue(start + newDay - 1);
+    return new CalendarDate(start + newDay - 1);
+  }
+
+  /** Get the parts of a date (given by its value) as formatted by Intl */
+  #parts(value: number): DateParts {
+    const parts = this.#formatter.formatToParts(
+      new Date((value - 719528) * 86_400_000),
+    );
+    let year = NaN, month = "", day = NaN;
+    for (const part of parts) {
+      if (
+        // The Chinese and Korean calendars give a "relatedYear" (the Gregorian year in which the year starts), which
+        // TypeScript doesn't know about yet
+        part.type === "year" || (part.type as string) === "relatedYear"
+      ) {
+        year = Number(part.value);
+      } else if (part.type === "month") {
+        month = part.value;
+      } else if (part.type === "day") {
+        day = Number(part.value);
+      }
+    }
+    const eraStart = this.#eraStarts.find((era) => era.start <= value);
+    if (eraStart?.year) year = eraStart.year(year, value);
+    return { era: eraStart?.era, year, month, day };
+  }
+
+  /**
+   * Get the month number and month code of a date (given by its value)
+   * @param month The month number, if it's already known
+   */
+  #month(
+    value: number,
+    parts: DateParts,
+    month?: number,
+  ): { month: number; monthCode: string } {
+    if (!LEAP_MONTH_CALENDARS.has(this.#calendar)) {
+      month = Number(parts.month);
+      return { month, monthCode: `M${String(month).padStart(2, "0")}` };
+    }
+    if (month === undefined) {
+      // Count the months since the start of the year:
+      month = 1;
+      for (let start = value - parts.day + 1;; month++) {
+        const previous = this.#parts(start - 1);
+        if (previous.year !== parts.year) break;
+        start -= previous.day;
+      }
+    }
+    if (this.#calendar === "hebrew") {
+      // Leap years have a 13th month, Adar I, which comes before Adar (which is then called Adar II)
+      const isLeapYear = (7 * parts.year + 1) % 19 < 7;
+      const code = isLeapYear && month >= 6 ? month - 1 : month;
+      return {
+        month,
+        monthCode: `M${String(code).padStart(2, "0")}${
+          isLeapYear && month === 6 ? "L" : ""
+        }`,
+      };
+    }
+    // In the Chinese and Korean calendars, Intl formats leap months like "6bis":
+    const code = parseInt(parts.month);
+    return {
+      month,
+      monthCode: `M${String(code).padStart(2, "0")}${
+        parts.month.endsWith("bis") ? "L" : ""
+      }`,
+    };
+  }
+
+  /** Get the first day of the month after the one starting on the given value */
+  #nextMonthStart(monthStart: number): number {
+    // No month is longer than 31 days, and no two months together are that short:
+    const later = monthStart + 31;
+    return later - this.#parts(later).day + 1;
+  }
+
+  /** Get the first day of the month before the one starting on the given value */
+  #previousMonthStart(monthStart: number): number {
+    return monthStart - this.#parts(monthStart - 1).day;
+  }
+
+  /** Get the eras of this calendar that CalendarDate's range includes, in order */
+  #getEras(): readonly EraRange[] {
+    if (this.#eras !== undefined) return this.#eras;
+    const eras: EraRange[] = [];
+    for (let start = MIN_VALUE; start <= MAX_VALUE;) {
+      const { era, year: startYear } = this.#parts(start);
+      // Step forward until we're past the end of the era, then search for where exactly it ended:
+      let low = start, high = start + ERA_SEARCH_STEP;
+      while (high <= MAX_VALUE && this.#parts(high).era === era) {
+        low = high;
+        high += ERA_SEARCH_STEP;
+      }
+      high = Math.min(high, MAX_VALUE + 1);
+      while (high - low > 1) {
+        const mid = Math.floor((low + high) / 2);
+        if (this.#parts(mid).era === era) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      eras.push({
+        era,
+        start,
+        end: low,
+        startYear,
+        endYear: this.#parts(low).year,
+      });
+      start = high;
+    }
+    this.#eras = eras;
+    return eras;
+  }
+
+  // Pretty print in Deno
+  [Symbol.for("Deno.customInspect")](): string {
+    return `IntlCalendarView {${this.#calendar}}`;
+  }
+}
+
+export {
+  type IntlCalendarFields,
+  type IntlCalendarFieldsInput,
+  IntlCalendarView,
+};
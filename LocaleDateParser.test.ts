@@ -0,0 +1,146 @@
+import { CalendarDateParseError } from "./CalendarDate.ts";
+import { LocaleDateParser } from "./LocaleDateParser.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("LocaleDateParser learns the field order of each locale", () => {
+  assertEquals(new LocaleDateParser("en-US").fieldOrder, [
+    "month",
+    "day",
+    "year",
+  ]);
+  assertEquals(new LocaleDateParser("en-GB").fieldOrder, [
+    "day",
+    "month",
+    "year",
+  ]);
+  assertEquals(new LocaleDateParser("ja").fieldOrder, ["year", "month", "day"]);
+  assertEquals(
+    new LocaleDateParser(new Intl.DateTimeFormat("de", { timeZone: "UTC" }))
+      .locale,
+    "de",
+  );
+});
+
+Deno.test("LocaleDateParser.parse()", async (t) => {
+  const cases: [string, string, string][] = [
+    // Numeric dates:
+    ["en-US", "8/15/2023", "2023-08-15"],
+    ["en-US", "08-15-2023", "2023-08-15"],
+    ["en-GB", "15/08/2023", "2023-08-15"],
+    ["de", "15.8.2023", "2023-08-15"],
+    ["nl", "15-8-2023", "2023-08-15"],
+    ["ja", "2023/8/15", "2023-08-15"],
+    ["ko", "2023. 8. 15.", "2023-08-15"],
+    ["hu", "2023. 08. 15.", "2023-08-15"],
+    // ISO 8601 dates work in any locale:
+    ["en-US", "2023-08-15", "2023-08-15"],
+    ["en-GB", "2023-08-15", "2023-08-15"],
+    // Month names and abbreviations:
+    ["en-US", "August 15, 2023", "2023-08-15"],
+    ["en-US", "Aug 15 2023", "2023-08-15"],
+    ["en-US", "tuesday, aug. 15, 2023", "2023-08-15"],
+    ["en-US", "15 Sept 2023", "2023-09-15"],
+    ["en-GB", "15 August 2023", "2023-08-15"],
+    ["fr", "15 août 2023", "2023-08-15"],
+    ["fr", "15 AOUT 2023", "2023-08-15"],
+    ["fr", "mardi 15 août 2023", "2023-08-15"],
+    ["fr", "1 févr. 2024", "2024-02-01"],
+    ["de", "Dienstag, 15. August 2023", "2023-08-15"],
+    ["es", "15 de agosto de 2023", "2023-08-15"],
+    ["ru", "15 августа 2023 г.", "2023-08-15"],
+    ["ru", "15 август 2023", "2023-08-15"],
+    ["ja", "2023年8月15日", "2023-08-15"],
+    ["ja", "2023年8月15日火曜日", "2023-08-15"],
+    // Other numbering systems:
+    ["fa", "۲۰۲۳/۸/۱۵", "2023-08-15"],
+  ];
+  for (const [locale, input, expected] of cases) {
+    await t.step(`parses "${input}" in ${locale}`, () => {
+      assertEquals(
+        new LocaleDateParser(locale).parse(input).toString(),
+        expected,
+      );
+    });
+  }
+});
+
+Deno.test("LocaleDateParser two-digit years", async (t) => {
+  await t.step("are rejected by default", () => {
+    const err = assertThrows(
+      () => new LocaleDateParser("en-US").parse("8/15/23"),
+      CalendarDateParseError,
+      "Two-digit year is ambiguous.",
+    );
+    assertEquals(err.field, "year");
+    assertEquals(err.offset, 5);
+  });
+
+  await t.step("are the closest year to the reference year", () => {
+    const parser = new LocaleDateParser("en-GB", { referenceYear: 2024 });
+    assertEquals(parser.parse("15/08/23").toString(), "2023-08-15");
+    assertEquals(parser.parse("15/08/70").toString(), "2070-08-15");
+    assertEquals(parser.parse("15/08/80").toString(), "1980-08-15");
+    assertEquals(parser.parse("15 Aug 99").toString(), "1999-08-15");
+  });
+});
+
+Deno.test("LocaleDateParser errors", async (t) => {
+  const cases: [
+    string,
+    string,
+    string,
+    CalendarDateParseError["field"],
+    number,
+  ][] = [
+    ["en-US", "15/8/2023", "Month out of range.", "month", 0],
+    ["en-GB", "31/04/2023", "Day out of range.", "day", 0],
+    ["en-GB", "29/02/2023", "Day out of range.", "day", 0],
+    ["en-GB", "15/08", "Expected a day, month, and year.", undefined, 5],
+    [
+      "en-GB",
+      "15/08/2023/1",
+      "Expected a day, month, and year.",
+      undefined,
+      11,
+    ],
+    ["en-GB", "15 August", "Expected a day and a year.", undefined, 9],
+    [
+      "en-GB",
+      "2023/08/2023",
+      "More than one number looks like a year.",
+      "year",
+      8,
+    ],
+    ["en-GB", "15 August July 2023", "More than one month name.", "month", 10],
+    [
+      "en-GB",
+      "15 Augustus 2023",
+      'Unrecognized word "augustus".',
+      undefined,
+      3,
+    ],
+    ["en-GB", "15 Ju 2023", 'Unrecognized word "ju".', undefined, 3],
+    [
+      "fr",
+      "15 jui 2023",
+      'Ambiguous month name "jui" could be juin or juillet.',
+      "month",
+      3,
+    ],
+    ["en-GB", "15/08/0", "Two-digit year is ambiguous.", "year", 6],
+    ["en-GB", "15/08/12345", "Year out of range.", "year", 6],
+  ];
+  for (const [locale, input, message, field, offset] of cases) {
+    await t.step(`"${input}" in ${locale}`, () => {
+      const parser = new LocaleDateParser(locale);
+      const err = assertThrows(
+        () => parser.parse(input),
+        CalendarDateParseError,
+        message,
+      );
+      assertEquals(err.field, field);
+      assertEquals(err.offset, offset);
+      assertEquals(parser.tryParse(input), undefined);
+    });
+  }
+});
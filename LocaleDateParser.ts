@@ -0,0 +1,385 @@
+import { CalendarDate, CalendarDateParseError } from "./CalendarDate.ts";
+
+/** Options for LocaleDateParser */
+interface LocaleDateParserOptions {
+  /**
+   * How to interpret two-digit years like "15/08/23". By default they are rejected, because they are ambiguous. If a
+   * reference year is given (typically the current year), a two-digit year is taken to be the year closest to it, e.g.
+   * with a reference year of 2024, "23" means 2023, "70" means 2070 and "80" means 1980.
+   */
+  referenceYear?: number;
+}
+
+/** The order that the parts of a date appear in, for some locale */
+type LocaleDateFieldOrder = readonly ("year" | "month" | "day")[];
+
+/** A number or word found in the input string */
+interface Token {
+  /** The digits of a number (converted to ASCII), or the normalized form of a word */
+  text: string;
+  isNumber: boolean;
+  /** Where this token was found in the input string */
+  offset: number;
+}
+
+/** Matches a run of digits (in any script), or a word, which may include abbreviation periods like "Aug." */
+const TOKEN_REGEX = /(\p{Nd}+)|([\p{L}\p{M}][\p{L}\p{M}.]*)/gu;
+
+/** A date to use when learning the locale's format, chosen so that the year, month and day are all different */
+const SAMPLE_DATE = Date.UTC(2001, 1, 23);
+
+/**
+ * Parses dates that were typed in by a human, in the format that's conventional for some locale, e.g. "8/15/2023" in
+ * the US, "15/08/2023" in the UK, or "15 août 2023" in France.
+ *
+ * Rather than hard-coding formats, this uses `Intl.DateTimeFormat.formatToParts()` to learn the order of the year,
+ * month, and day, as well as the names of the months (long and abbreviated), and any other words that appear in
+ * formatted dates (like weekday names), which are ignored. Punctuation and whitespace are treated as separators, so
+ * "15.8.2023", "15/08/2023" and "15 - 8 - 2023" are all the same to a parser for the "de" locale.
+ *
+ * A four-digit year can appear anywhere, and in particular ISO 8601 "YYYY-MM-DD" dates are understood in any locale.
+ *
+ * Only the Gregorian calendar is supported; if the locale or formatter uses some other calendar by default, the
+ * Gregorian calendar is used anyway.
+ */
+class LocaleDateParser {
+  readonly #locale: string;
+  readonly #fieldOrder: LocaleDateFieldOrder;
+  /** Normalized month names and abbreviations, mapped to the month number (1-12) */
+  readonly #monthNames = new Map<string, number>();
+  /** The full name of each month, for error messages */
+  readonly #monthDisplayNames: string[] = [];
+  /** Normalized words that can appear in a formatted date but don't tell us anything, like weekday names or "de" */
+  readonly #ignoredWords = new Set<string>();
+  /** Non-ASCII digits used by this locale's numbering system, mapped to their ASCII equivalents */
+  readonly #digits = new Map<string, string>();
+  readonly #referenceYear: number | undefined;
+
+  /**
+   * Construct a parser for dates in some locale.
+   * @param locale A locale string like "en-US", or an Intl.DateTimeFormat whose locale (and field order) to use
+   */
+  constructor(
+    locale: string | Intl.DateTimeFormat,
+    options: LocaleDateParserOptions = {},
+  ) {
+    const formatter = typeof locale === "string" ? undefined : locale;
+    this.#locale =
+      (typeof locale === "string" ? new Intl.DateTimeFormat(locale) : locale)
+        .resolvedOptions().locale;
+    if (
+      options.referenceYear !== undefined &&
+      !Number.isInteger(options.referenceYear)
+    ) {
+      throw new Error(`Non-integer reference year.`);
+    }
+    this.#referenceYear = options.referenceYear;
+
+    const numberFormat = new Intl.NumberFormat(this.#locale, {
+      useGrouping: false,
+    });
+    for (let i = 0; i < 10; i++) {
+      this.#digits.set(numberFormat.format(i), String(i));
+    }
+
+    // Learn the field order, preferring the order used by the given formatter (if it has all three fields):
+    const fieldsOf = (f: Intl.DateTimeFormat) =>
+      f.formatToParts(SAMPLE_DATE).map((p) => p.type).filter((type) =>
+        type === "year" || type === "month" || type === "day"
+      );
+    let fieldOrder = formatter ? fieldsOf(formatter) : [];
+    if (fieldOrder.length !== 3) {
+      fieldOrder = fieldsOf(this.#formatter({
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+      }));
+    }
+    this.#fieldOrder = Object.freeze(fieldOrder);
+
+    // Learn the month names, in both their standalone form (e.g. Russian "август") and the form used within a date
+    // (e.g. "15 августа"), and any other words that show up in long dates:
+    const monthFormats = [
+      this.#formatter({ month: "long" }),
+      this.#formatter({ month: "short" }),
+      this.#formatter({ month: "long", day: "numeric" }),
+      this.#formatter({ month: "short", day: "numeric" }),
+      this.#formatter({ dateStyle: "long" }),
+      this.#formatter({ dateStyle: "medium" }),
+    ];
+    const weekdayFormats = [
+      this.#formatter({ weekday: "long" }),
+      this.#formatter({ weekday: "short" }),
+      this.#formatter({ dateStyle: "full" }),
+    ];
+    for (let month = 1; month <= 12; month++) {
+      const date = Date.UTC(2001, month - 1, 1);
+      this.#monthDisplayNames[month] = monthFormats[0].format(date);
+      for (const format of monthFormats) {
+        for (const part of format.formatToParts(date)) {
+          const words = this.#tokenize(part.value);
+          if (part.type === "month") {
+            // Ignore month "names" that are really numbers, like the Chinese "8月"
+            if (words.length === 1 && !words[0].isNumber) {
+              this.#monthNames.set(words[0].text, month);
+            }
+          } else if (part.type === "literal") {
+            words.forEach((w) => w.isNumber || this.#ignoredWords.add(w.text));
+          }
+        }
+      }
+    }
+    // 2001-01-01 was a Monday, so this covers every day of the week:
+    for (let day = 1; day <= 7; day++) {
+      for (const format of weekdayFormats) {
+        for (const part of format.formatToParts(Date.UTC(2001, 0, day))) {
+          if (part.type === "weekday" || part.type === "literal") {
+            this.#tokenize(part.value).forEach((w) =>
+              w.isNumber || this.#ignoredWords.add(w.text)
+            );
+          }
+        }
+      }
+    }
+    for (const name of this.#monthNames.keys()) {
+      this.#ignoredWords.delete(name);
+    }
+  }
+
+  /** Get the locale that this parser is using, e.g. "en-US" */
+  public get locale(): string {
+    return this.#locale;
+  }
+
+  /**
+   * Get the order that the year, month, and day are written in for this locale, e.g. ["month", "day", "year"] for
+   * "en-US". This can be useful for a placeholder or hint like "MM/DD/YYYY" on a form field.
+   */
+  public get fieldOrder(): LocaleDateFieldOrder {
+    return this.#fieldOrder;
+  }
+
+  /**
+   * Parse a date written in this parser's locale, like "15/08/2023" or "15 août 2023".
+   *
+   * If the string can't be parsed, or it's not clear which date it means, this throws a CalendarDateParseError which
+   * explains the problem.
+   */
+  public parse(input: string): CalendarDate {
+    const fail = (
+      message: string,
+      field: "year" | "month" | "day" | undefined,
+      offset: number,
+    ): never => {
+      throw new CalendarDateParseError(message, input, field, offset);
+    };
+
+    const numbers: Token[] = [];
+    let monthName: { month: number; offset: number } | undefined;
+    for (const token of this.#tokenize(input)) {
+      if (token.isNumber) {
+        numbers.push(token);
+        continue;
+      }
+      const words = this.#splitWord(token);
+      for (const word of words) {
+        if (this.#ignoredWords.has(word.text)) {
+          continue;
+        }
+        const month = this.#matchMonthName(word, fail);
+        if (monthName !== undefined) {
+          fail(`More than one month name.`, "month", word.offset);
+        }
+        monthName = { month, offset: word.offset };
+      }
+    }
+
+    // Now figure out which number is which:
+    const expectedCount = monthName ? 2 : 3;
+    if (numbers.length !== expectedCount) {
+      fail(
+        monthName
+          ? `Expected a day and a year.`
+          : `Expected a day, month, and year.`,
+        undefined,
+        numbers.length > expectedCount
+          ? numbers[expectedCount].offset
+          : input.length,
+      );
+    }
+    const fullYears = numbers.filter((n) => n.text.length >= 3);
+    if (fullYears.length > 1) {
+      fail(
+        `More than one number looks like a year.`,
+        "year",
+        fullYears[1].offset,
+      );
+    }
+    let order = this.#fieldOrder.filter((f) => !monthName || f !== "month");
+    if (fullYears.length === 1) {
+      // We know which number is the year, so the other number(s) are in the same order as the locale's day and month.
+      const yearIndex = numbers.indexOf(fullYears[0]);
+      order = order.filter((f) => f !== "year");
+      if (
+        yearIndex === 0 && order.length === 2 && this.#fieldOrder[0] !== "year"
+      ) {
+        // A year at the start means year-month-day (as in ISO 8601), no matter what the locale's usual order is.
+        order = ["month", "day"];
+      }
+      order.splice(yearIndex, 0, "year");
+    }
+    const fields = { year: numbers[0], month: numbers[0], day: numbers[0] };
+    order.forEach((field, i) => fields[field] = numbers[i]);
+
+    let year = Number(fields.year.text);
+    if (fields.year.text.length <= 2) {
+      if (this.#referenceYear === undefined) {
+        fail(`Two-digit year is ambiguous.`, "year", fields.year.offset);
+      } else {
+        year += this.#referenceYear - (this.#referenceYear % 100 + 100) % 100;
+        if (year > this.#referenceYear + 50) {
+          year -= 100;
+        } else if (year <= this.#referenceYear - 50) {
+          year += 100;
+        }
+      }
+    }
+    if (year < 1 || year > 9999) {
+      fail(`Year out of range.`, "year", fields.year.offset);
+    }
+    const month = monthName ? monthName.month : Number(fields.month.text);
+    if (month < 1 || month > 12) {
+      fail(`Month out of range.`, "month", fields.month.offset);
+    }
+    const day = Number(fields.day.text);
+    if (day < 1 || day > CalendarDate.daysInMonth(year, month)) {
+      fail(`Day out of range.`, "day", fields.day.offset);
+    }
+    return CalendarDate.create(year, month, day);
+  }
+
+  /**
+   * Parse a date written in this parser's locale, or return undefined if it can't be parsed.
+   * See parse() for details.
+   */
+  public tryParse(input: string): CalendarDate | undefined {
+    try {
+      return this.parse(input);
+    } catch (err) {
+      if (err instanceof CalendarDateParseError) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  /** Create a formatter that we can use to learn about this locale */
+  #formatter(options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+    return new Intl.DateTimeFormat(this.#locale, {
+      ...options,
+      calendar: "gregory",
+      timeZone: "UTC",
+    });
+  }
+
+  /** Split a string into numbers and (normalized) words, ignoring whitespace and punctuation */
+  #tokenize(str: string): Token[] {
+    return Array.from(str.matchAll(TOKEN_REGEX), (match) => {
+      if (match[1] !== undefined) {
+        const text = Array.from(match[1], (c) => this.#digits.get(c) ?? c)
+          .join("");
+        return { text, isNumber: true, offset: match.index };
+      }
+      // Normalize words so that "Août", "aout" and "août." all match:
+      const text = match[2].toLocaleLowerCase(this.#locale).normalize("NFD")
+        .replace(/[\u0300-\u036f.]/g, "");
+      return { text, isNumber: false, offset: match.index };
+    });
+  }
+
+  /**
+   * Some scripts don't put spaces between words, e.g. Japanese "15日火曜日" ("15th, Tuesday"). If a word isn't one we
+   * know, try splitting it into several words that we do know.
+   */
+  #splitWord(word: Token): Token[] {
+    const result: Token[] = [];
+    let rest = word.text;
+    while (rest && !this.#isKnownWord(rest)) {
+      let length = rest.length - 1;
+      while (length > 0 && !this.#isKnownWord(rest.slice(0, length))) {
+        length--;
+      }
+      if (length === 0) {
+        return [word]; // Can't be split up into known words.
+      }
+      result.push({
+        text: rest.slice(0, length),
+        isNumber: false,
+        offset: word.offset + word.text.length - rest.length,
+      });
+      rest = rest.slice(length);
+    }
+    if (rest) {
+      result.push({
+        text: rest,
+        isNumber: false,
+        offset: word.offset + word.text.length - rest.length,
+      });
+    }
+    return result;
+  }
+
+  #isKnownWord(text: string): boolean {
+    return this.#ignoredWords.has(text) || this.#monthNames.has(text);
+  }
+
+  /**
+   * Get the month number from a month name, or a prefix of one that's at least three letters long (e.g. "sept" or
+   * "janv"), or fail if the word isn't recognized or could be more than one month.
+   */
+  #matchMonthName(
+    word: Token,
+    fail: (
+      message: string,
+      field: "month" | undefined,
+      offset: number,
+    ) => never,
+  ): number {
+    const exact = this.#monthNames.get(word.text);
+    if (exact !== undefined) {
+      return exact;
+    }
+    const candidates = new Set<number>();
+    if (word.text.length >= 3) {
+      for (const [name, month] of this.#monthNames) {
+        if (name.startsWith(word.text)) {
+          candidates.add(month);
+        }
+      }
+    }
+    if (candidates.size === 0) {
+      return fail(`Unrecognized word "${word.text}".`, undefined, word.offset);
+    } else if (candidates.size > 1) {
+      const names = [...candidates].sort((a, b) => a - b).map((m) =>
+        this.#monthDisplayNames[m]
+      );
+      return fail(
+        `Ambiguous month name "${word.text}" could be ${names.join(" or ")}.`,
+        "month",
+        word.offset,
+      );
+    }
+    return [...candidates][0];
+  }
+
+  // Pretty print in Deno
+  [Symbol.for("Deno.customInspect")](): string {
+    return `LocaleDateParser {${this.#locale}}`;
+  }
+}
+
+export {
+  type LocaleDateFieldOrder,
+  LocaleDateParser,
+  type LocaleDateParserOptions,
+};
@@ -0,0 +1,375 @@
+import { CalendarDate, D } from "./CalendarDate.ts";
+import { RecurrenceRule, RecurrenceSet } from "./RecurrenceRule.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+/** Get up to the first n dates from an iterable, as strings */
+const take = (dates: Iterable<CalendarDate>, n = Infinity) => {
+  const result: string[] = [];
+  for (const date of dates) {
+    if (result.length >= n) break;
+    result.push(date.toString());
+  }
+  return result;
+};
+
+Deno.test("RecurrenceRule.occurrences()", async (t) => {
+  const cases: [string, string, string[]][] = [
+    ["2023-08-30", "FREQ=DAILY;COUNT=3", [
+      "2023-08-30",
+      "2023-08-31",
+      "2023-09-01",
+    ]],
+    // Every second Tuesday:
+    ["2023-08-01", "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU", [
+      "2023-08-01",
+      "2023-08-15",
+      "2023-08-29",
+      "2023-09-12",
+    ]],
+    ["2023-08-01", "FREQ=WEEKLY;UNTIL=20230816;BYDAY=MO,WE", [
+      "2023-08-02",
+      "2023-08-07",
+      "2023-08-09",
+      "2023-08-14",
+      "2023-08-16",
+    ]],
+    // The last weekday of each month:
+    ["2023-08-01", "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1", [
+      "2023-08-31",
+      "2023-09-29",
+      "2023-10-31",
+      "2023-11-30",
+      "2023-12-29",
+    ]],
+    // The second last day of each month:
+    ["2023-01-01", "FREQ=MONTHLY;BYMONTHDAY=-2", [
+      "2023-01-30",
+      "2023-02-27",
+      "2023-03-30",
+    ]],
+    // Friday the 13th:
+    ["2023-01-01", "FREQ=MONTHLY;BYMONTHDAY=13;BYDAY=FR", [
+      "2023-01-13",
+      "2023-10-13",
+      "2024-09-13",
+      "2024-12-13",
+    ]],
+    // US Thanksgiving:
+    ["2023-01-01", "FREQ=YEARLY;BYMONTH=11;BYDAY=4TH", [
+      "2023-11-23",
+      "2024-11-28",
+      "2025-11-27",
+    ]],
+    // The following examples are from RFC 5545:
+    ["1997-05-19", "FREQ=YEARLY;BYDAY=20MO", [
+      "1997-05-19",
+      "1998-05-18",
+      "1999-05-17",
+    ]],
+    ["1997-09-02", "FREQ=WEEKLY;INTERVAL=2;COUNT=8;BYDAY=TU,TH;WKST=SU", [
+      "1997-09-02",
+      "1997-09-04",
+      "1997-09-16",
+      "1997-09-18",
+      "1997-09-30",
+      "1997-10-02",
+      "1997-10-14",
+      "1997-10-16",
+    ]],
+    ["1997-08-05", "FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU", [
+      "1997-08-05",
+      "1997-08-10",
+      "1997-08-19",
+      "1997-08-24",
+    ]],
+    ["1997-08-05", "FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=SU", [
+      "1997-08-05",
+      "1997-08-17",
+      "1997-08-19",
+      "1997-08-31",
+    ]],
+    ["1997-09-04", "FREQ=MONTHLY;COUNT=3;BYDAY=TU,WE,TH;BYSETPOS=3", [
+      "1997-09-04",
+      "1997-10-07",
+      "1997-11-06",
+    ]],
+    ["1997-01-01", "FREQ=YEARLY;BYDAY=-1SU", [
+      "1997-12-28",
+      "1998-12-27",
+    ]],
+  ];
+  for (const [start, rrule, expected] of cases) {
+    await t.step(`${rrule} from ${start}`, () => {
+      const rule = RecurrenceRule.fromString(rrule);
+      assertEquals(rule.toString(), rrule);
+      assertEquals(
+        take(rule.occurrences(CalendarDate.fromString(start)), 10).slice(
+          0,
+          expected.length,
+        ),
+        expected,
+      );
+    });
+  }
+
+  await t.step("COUNT and UNTIL stop the sequence", () => {
+    assertEquals(
+      take(
+        RecurrenceRule.fromString("FREQ=DAILY;COUNT=3").occurrences(
+          D`2023-01-01`,
+        ),
+      ).length,
+      3,
+    );
+    assertEquals(
+      take(
+        RecurrenceRule.fromString("FREQ=YEARLY;UNTIL=20250101T000000Z")
+          .occurrences(D`2023-01-01`),
+      ),
+      ["2023-01-01", "2024-01-01", "2025-01-01"],
+    );
+  });
+
+  await t.step("stops at the end of the supported range", () => {
+    assertEquals(
+      take(RecurrenceRule.fromString("FREQ=YEARLY").occurrences(D`9997-06-01`)),
+      ["9997-06-01", "9998-06-01", "9999-06-01"],
+    );
+    // 9999-12-31 is a Friday, in the middle of the last week:
+    assertEquals(
+      take(RecurrenceRule.fromString("FREQ=WEEKLY").occurrences(D`9999-12-01`)),
+      ["9999-12-01", "9999-12-08", "9999-12-15", "9999-12-22", "9999-12-29"],
+    );
+    assertEquals(
+      take(
+        RecurrenceRule.fromString("FREQ=WEEKLY;BYDAY=FR,SA;BYSETPOS=1")
+          .occurrences(D`9999-12-01`),
+      ).slice(-2),
+      ["9999-12-24", "9999-12-31"],
+    );
+    // 0001-01-01 is a Monday, so with weeks starting on Sunday, the first week starts before the supported range:
+    assertEquals(
+      take(
+        RecurrenceRule.fromString("FREQ=WEEKLY;WKST=SU;BYDAY=SU,MO")
+          .occurrences(D`0001-01-01`),
+        3,
+      ),
+      ["0001-01-01", "0001-01-07", "0001-01-08"],
+    );
+  });
+
+  await t.step("only supports years 1-9999, even in the extended range", () => {
+    CalendarDate.enableExtendedRange();
+    try {
+      for (const start of ["-000044-03-15", "0000-12-31", "+010000-01-01"]) {
+        for (const freq of ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]) {
+          assertThrows(
+            () =>
+              take(
+                RecurrenceRule.fromString(`FREQ=${freq}`).occurrences(
+                  CalendarDate.fromString(start),
+                ),
+              ),
+            RangeError,
+            `Date (${start}) out of range for a recurrence rule.`,
+          );
+        }
+      }
+      // Dates in years 1-9999 still work, and the rule still stops at the end of 9999:
+      assertEquals(
+        take(
+          RecurrenceRule.fromString("FREQ=YEARLY").occurrences(D`9998-06-01`),
+        ),
+        ["9998-06-01", "9999-06-01"],
+      );
+    } finally {
+      CalendarDate.enableExtendedRange(false);
+    }
+  });
+});
+
+Deno.test("RecurrenceRule days that don't exist (SKIP)", async (t) => {
+  await t.step("are omitted by default", () => {
+    const rule = RecurrenceRule.fromString(
+      "FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=31",
+    );
+    assertEquals(take(rule.occurrences(D`2023-01-31`), 4), [
+      "2023-01-31",
+      "2023-07-31",
+      "2023-10-31",
+      "2024-01-31",
+    ]);
+    assertEquals(
+      take(
+        new RecurrenceRule({ freq: "YEARLY" }).occurrences(D`2020-02-29`),
+        2,
+      ),
+      ["2020-02-29", "2024-02-29"],
+    );
+  });
+
+  await t.step("are clamped to the end of the month, like addMonths()", () => {
+    const rule = new RecurrenceRule({
+      freq: "MONTHLY",
+      interval: 3,
+      skip: "backward",
+    });
+    assertEquals(
+      rule.toString(),
+      "FREQ=MONTHLY;INTERVAL=3;RSCALE=GREGORIAN;SKIP=BACKWARD",
+    );
+    const start = D`2023-01-31`;
+    assertEquals(
+      take(rule.occurrences(start), 40),
+      Array.from({ length: 40 }, (_, i) => start.addMonths(i * 3).toString()),
+    );
+    assertEquals(
+      take(
+        new RecurrenceRule({ freq: "YEARLY", skip: "backward" }).occurrences(
+          D`2020-02-29`,
+        ),
+        5,
+      ),
+      Array.from(
+        { length: 5 },
+        (_, i) => D`2020-02-29`.addMonths(i * 12).toString(),
+      ),
+    );
+  });
+
+  await t.step("can move forward to the next month", () => {
+    const rule = RecurrenceRule.fromString(
+      "FREQ=MONTHLY;BYMONTHDAY=31;RSCALE=GREGORIAN;SKIP=FORWARD",
+    );
+    assertEquals(take(rule.occurrences(D`2023-01-31`), 4), [
+      "2023-01-31",
+      "2023-03-01",
+      "2023-03-31",
+      "2023-05-01",
+    ]);
+  });
+});
+
+Deno.test("RecurrenceRule options", () => {
+  const rule = new RecurrenceRule({
+    freq: "MONTHLY",
+    byDay: [{ dayOfWeek: 1, n: 2 }],
+    count: 2,
+  });
+  assertEquals(rule.toString(), "FREQ=MONTHLY;COUNT=2;BYDAY=2TU");
+  assertEquals(rule.options.byDay, [{ dayOfWeek: 1, n: 2 }]);
+  assertEquals(
+    JSON.stringify({ rule }),
+    '{"rule":"FREQ=MONTHLY;COUNT=2;BYDAY=2TU"}',
+  );
+  assertEquals(take(rule.occurrences(D`2023-08-01`)), [
+    "2023-08-08",
+    "2023-09-12",
+  ]);
+});
+
+Deno.test("RecurrenceRule errors", async (t) => {
+  const cases: [string, string][] = [
+    ["INTERVAL=2", "RRULE must include FREQ."],
+    ["FREQ=HOURLY", 'Invalid RRULE value for FREQ: "HOURLY".'],
+    ["FREQ=DAILY;BYHOUR=9", 'Unsupported RRULE part "BYHOUR".'],
+    ["FREQ=DAILY;FREQ=WEEKLY", 'Duplicate RRULE part "FREQ".'],
+    ["FREQ=DAILY;COUNT", 'Invalid RRULE part "COUNT".'],
+    ["FREQ=DAILY;COUNT=0", "Count must be a positive integer."],
+    ["FREQ=DAILY;INTERVAL=-1", "Interval must be a positive integer."],
+    [
+      "FREQ=DAILY;COUNT=2;UNTIL=20230101",
+      "A recurrence rule can't have both a count and an until date.",
+    ],
+    [
+      "FREQ=DAILY;UNTIL=2023-01-01",
+      'Invalid RRULE value for UNTIL: "2023-01-01".',
+    ],
+    ["FREQ=YEARLY;BYMONTH=13", "Month out of range."],
+    ["FREQ=MONTHLY;BYMONTHDAY=0", "Day of month out of range."],
+    [
+      "FREQ=WEEKLY;BYMONTHDAY=1",
+      "A weekly recurrence rule can't have days of the month.",
+    ],
+    ["FREQ=WEEKLY;BYDAY=XX", 'Invalid RRULE value for BYDAY: "XX".'],
+    ["FREQ=WEEKLY;BYDAY=2TU", "Numbered weekdays"],
+    ["FREQ=YEARLY;BYDAY=54TU", "Weekday occurrence out of range."],
+    [
+      "FREQ=DAILY;BYSETPOS=1",
+      "A set position can only be used with other BY rules.",
+    ],
+    ["FREQ=DAILY;RSCALE=HEBREW", 'Invalid RRULE value for RSCALE: "HEBREW".'],
+  ];
+  for (const [rrule, message] of cases) {
+    await t.step(rrule, () => {
+      assertThrows(() => RecurrenceRule.fromString(rrule), Error, message);
+    });
+  }
+});
+
+Deno.test("RecurrenceSet", async (t) => {
+  const str = [
+    "DTSTART;VALUE=DATE:20230101",
+    "RRULE:FREQ=MONTHLY;COUNT=6;BYMONTHDAY=1",
+    "RDATE;VALUE=DATE:20230415,20230101",
+    "EXDATE;VALUE=DATE:20230401",
+  ].join("\n");
+
+  await t.step("includes RDATEs and excludes EXDATEs", () => {
+    const set = RecurrenceSet.fromString(str);
+    assertEquals(take(set), [
+      "2023-01-01",
+      "2023-02-01",
+      "2023-03-01",
+      "2023-04-15",
+      "2023-05-01",
+      "2023-06-01",
+    ]);
+    assertEquals(set.toString(), str);
+  });
+
+  await t.step("always includes the start date", () => {
+    const set = new RecurrenceSet(D`2023-01-02`, {
+      rules: [RecurrenceRule.fromString("FREQ=MONTHLY;COUNT=2;BYMONTHDAY=1")],
+    });
+    assertEquals(take(set), ["2023-01-02", "2023-02-01", "2023-03-01"]);
+  });
+
+  await t.step("merges multiple rules lazily", () => {
+    const set = new RecurrenceSet(D`2023-01-02`, {
+      rules: [
+        RecurrenceRule.fromString("FREQ=WEEKLY;BYDAY=MO"),
+        RecurrenceRule.fromString("FREQ=MONTHLY;BYMONTHDAY=1,2"),
+      ],
+      exdates: [D`2023-01-09`],
+    });
+    assertEquals(take(set, 6), [
+      "2023-01-02",
+      "2023-01-16",
+      "2023-01-23",
+      "2023-01-30",
+      "2023-02-01",
+      "2023-02-02",
+    ]);
+  });
+
+  await t.step(
+    "parses iCalendar lines with CRLF and ignores other lines",
+    () => {
+      const set = RecurrenceSet.fromString(
+        "BEGIN:VEVENT\r\nDTSTART;VALUE=DATE:20230101\r\nRRULE:FREQ=YEARLY;COUNT=2\r\nSUMMARY:New Year\r\nEND:VEVENT",
+      );
+      assertEquals(take(set), ["2023-01-01", "2024-01-01"]);
+      assertThrows(
+        () => RecurrenceSet.fromString("RRULE:FREQ=DAILY"),
+        Error,
+        "Missing DTSTART.",
+      );
+      assertThrows(
+        () => RecurrenceSet.fromString("DTSTART:20230101T090000Z"),
+        Error,
+        "only dates are supported",
+      );
+    },
+  );
+});
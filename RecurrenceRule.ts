@@ -0,0 +1,632 @@
+import { CalendarDate } from "./CalendarDate.ts";
+
+/** How often a recurrence rule repeats */
+type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+/**
+ * A day of the week in a recurrence rule (BYDAY), e.g. `{ dayOfWeek: 1 }` for every Tuesday, or
+ * `{ dayOfWeek: 4, n: -1 }` for the last Friday (of the month, or of the year).
+ */
+interface RecurrenceWeekday {
+  /** The day of the week (0 = Monday, 6 = Sunday) */
+  dayOfWeek: number;
+  /** Which occurrence within the month or year: 1 for the first, 2 for the second, -1 for the last, etc. */
+  n?: number;
+}
+
+/**
+ * What to do when a rule generates a day that doesn't exist, like the 31st of a month with 30 days (RFC 7529 SKIP):
+ * - "omit": skip that month (the RFC 5545 default)
+ * - "backward": use the last day of the month instead, like CalendarDate's addMonths()
+ * - "forward": use the first day of the next month instead
+ */
+type RecurrenceSkip = "omit" | "backward" | "forward";
+
+/** The parts of a recurrence rule, corresponding to the RFC 5545 RRULE parts of the same name */
+interface RecurrenceRuleOptions {
+  freq: RecurrenceFrequency;
+  /** Repeat every nth day/week/month/year. Default: 1 */
+  interval?: number;
+  /** Stop after this many occurrences */
+  count?: number;
+  /** Stop after this date (inclusive) */
+  until?: CalendarDate;
+  /** Only in these months (1-12) */
+  byMonth?: readonly number[];
+  /** Only on these days of the month (1 to 31, or -1 to -31 to count from the end of the month) */
+  byMonthDay?: readonly number[];
+  /** Only on these days of the week */
+  byDay?: readonly RecurrenceWeekday[];
+  /** Only the nth occurrence(s) within each day/week/month/year, e.g. -1 for the last one */
+  bySetPos?: readonly number[];
+  /** The day that weeks start on (0 = Monday, 6 = Sunday). This matters for weekly rules with an interval. Default: 0 */
+  weekStart?: number;
+  /** What to do with days that don't exist, like February 30. Default: "omit" */
+  skip?: RecurrenceSkip;
+}
+
+/** The RFC 5545 codes for each day of the week, in the same order as CalendarDate's dayOfWeek */
+const DAY_CODES = Object.freeze(["MO", "TU", "WE", "TH", "FR", "SA", "SU"]);
+
+/** The values of 0001-01-01 and 9999-12-31: recurrence rules don't support CalendarDate's extended range */
+const MIN_VALUE = 366;
+const MAX_VALUE = 3652424;
+
+/** Format a date in the RFC 5545 DATE format, "YYYYMMDD" */
+const toBasicFormat = (date: CalendarDate) => date.toString().replace(/-/g, "");
+
+/** Parse a comma-separated list of integers in an RRULE */
+const parseIntList = (name: string, value: string) =>
+  value.split(",").map((part) => {
+    if (!/^[+-]?\d+$/.test(part)) {
+      throw new Error(`Invalid RRULE value for ${name}: "${value}".`);
+    }
+    return Number(part);
+  });
+
+/** Is this a positive integer? */
+const isPositiveInt = (value: number | undefined) =>
+  Number.isInteger(value) && value! > 0;
+
+/** Is this an integer in the range [-max, -min] or [min, max]? */
+const isSignedInt = (value: number, min: number, max: number) =>
+  Number.isInteger(value) && Math.abs(value) >= min && Math.abs(value) <= max;
+
+/**
+ * A recurrence rule, like "every second Tuesday" or "the last weekday of each month". This implements the date-only
+ * part of RFC 5545 (iCalendar) RRULEs: FREQ (DAILY, WEEKLY, MONTHLY, or YEARLY), INTERVAL, COUNT, UNTIL, BYMONTH,
+ * BYMONTHDAY, BYDAY, BYSETPOS and WKST, as well as the SKIP part from RFC 7529.
+ *
+ * e.g. `RecurrenceRule.fromString("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1")` is the last weekday of each month.
+ *
+ * Use occurrences() to get the dates, starting from some date (DTSTART).
+ */
+class RecurrenceRule {
+  readonly #options: Readonly<RecurrenceRuleOptions>;
+
+  /**
+   * Parse an RFC 5545 RRULE like "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU" (with or without the "RRULE:" prefix).
+   * Time-based parts like BYHOUR aren't supported, and a date-time UNTIL value is truncated to its date.
+   */
+  public static fromString(str: string): RecurrenceRule {
+    const rule = str.startsWith("RRULE:") ? str.slice(6) : str;
+    const options: Partial<RecurrenceRuleOptions> = {};
+    const seen = new Set<string>();
+    for (const part of rule.split(";")) {
+      const [name, value, ...rest] = part.split("=");
+      if (value === undefined || value === "" || rest.length > 0) {
+        throw new Error(`Invalid RRULE part "${part}".`);
+      } else if (seen.has(name)) {
+        throw new Error(`Duplicate RRULE part "${name}".`);
+      }
+      seen.add(name);
+      const invalid = () =>
+        new Error(`Invalid RRULE value for ${name}: "${value}".`);
+      switch (name) {
+        case "FREQ":
+          if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(value)) {
+            throw invalid();
+          }
+          options.freq = value as RecurrenceFrequency;
+          break;
+        case "INTERVAL":
+        case "COUNT": {
+          const [number] = parseIntList(name, value);
+          options[name === "INTERVAL" ? "interval" : "count"] = number;
+          break;
+        }
+        case "UNTIL": {
+          const match = /^(\d{8})(T\d{6}Z?)?$/.exec(value);
+          if (match === null) {
+            throw invalid();
+          }
+          options.until = CalendarDate.fromString(match[1]);
+          break;
+        }
+        case "BYMONTH":
+          options.byMonth = parseIntList(name, value);
+          break;
+        case "BYMONTHDAY":
+          options.byMonthDay = parseIntList(name, value);
+          break;
+        case "BYSETPOS":
+          options.bySetPos = parseIntList(name, value);
+          break;
+        case "BYDAY":
+          options.byDay = value.split(",").map((day) => {
+            const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(day);
+            if (match === null) {
+              throw invalid();
+            }
+            const dayOfWeek = DAY_CODES.indexOf(match[2]);
+            return match[1]
+              ? { dayOfWeek, n: Number(match[1]) }
+              : { dayOfWeek };
+          });
+          break;
+        case "WKST":
+          options.weekStart = DAY_CODES.indexOf(value);
+          if (options.weekStart === -1) {
+            throw invalid();
+          }
+          break;
+        case "RSCALE":
+          if (value !== "GREGORIAN") {
+            throw invalid();
+          }
+          break;
+        case "SKIP":
+          if (!["OMIT", "BACKWARD", "FORWARD"].includes(value)) {
+            throw invalid();
+          }
+          options.skip = value.toLowerCase() as RecurrenceSkip;
+          break;
+        default:
+          throw new Error(`Unsupported RRULE part "${name}".`);
+      }
+    }
+    if (options.freq === undefined) {
+      throw new Error(`RRULE must include FREQ.`);
+    }
+    return new RecurrenceRule(options as RecurrenceRuleOptions);
+  }
+
+  constructor(options: RecurrenceRuleOptions) {
+    const { freq, byMonth, byMonthDay, byDay, bySetPos } = options;
+    if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) {
+      throw new Error(`Invalid recurrence frequency.`);
+    } else if (
+      options.interval !== undefined && !isPositiveInt(options.interval)
+    ) {
+      throw new Error(`Interval must be a positive integer.`);
+    } else if (options.count !== undefined && !isPositiveInt(options.count)) {
+      throw new Error(`Count must be a positive integer.`);
+    } else if (options.count !== undefined && options.until !== undefined) {
+      throw new Error(
+        `A recurrence rule can't have both a count and an until date.`,
+      );
+    } else if (byMonth?.some((month) => !isPositiveInt(month) || month > 12)) {
+      throw new Error(`Month out of range.`);
+    } else if (byMonthDay?.some((day) => !isSignedInt(day, 1, 31))) {
+      throw new Error(`Day of month out of range.`);
+    } else if (byMonthDay && freq === "WEEKLY") {
+      throw new Error(`A weekly recurrence rule can't have days of the month.`);
+    } else if (
+      byDay?.some((day) =>
+        !Number.isInteger(day.dayOfWeek) || day.dayOfWeek < 0 ||
+        day.dayOfWeek > 6
+      )
+    ) {
+      throw new Error(`Day of week out of range.`);
+    } else if (
+      byDay?.some((day) => day.n !== undefined && !isSignedInt(day.n, 1, 53))
+    ) {
+      throw new Error(`Weekday occurrence out of range.`);
+    } else if (
+      byDay?.some((day) => day.n !== undefined) &&
+      (freq === "DAILY" || freq === "WEEKLY" || byMonthDay)
+    ) {
+      throw new Error(
+        `Numbered weekdays (like "the 2nd Tuesday") are only allowed in monthly and yearly rules without days of the month.`,
+      );
+    } else if (bySetPos?.some((pos) => !isSignedInt(pos, 1, 366))) {
+      throw new Error(`Set position out of range.`);
+    } else if (bySetPos && !byMonth && !byMonthDay && !byDay) {
+      throw new Error(`A set position can only be used with other BY rules.`);
+    } else if (
+      options.weekStart !== undefined &&
+      (!Number.isInteger(options.weekStart) || options.weekStart < 0 ||
+        options.weekStart > 6)
+    ) {
+      throw new Error(`Day of week out of range.`);
+    }
+    this.#options = Object.freeze({
+      ...options,
+      byMonth: byMonth && Object.freeze([...byMonth]),
+      byMonthDay: byMonthDay && Object.freeze([...byMonthDay]),
+      byDay: byDay &&
+        Object.freeze(byDay.map((day) => Object.freeze({ ...day }))),
+      bySetPos: bySetPos && Object.freeze([...bySetPos]),
+    });
+  }
+
+  /** Get the parts of this recurrence rule */
+  public get options(): Readonly<RecurrenceRuleOptions> {
+    return this.#options;
+  }
+
+  /**
+   * Lazily generate the dates of this recurrence rule, starting from `start` (DTSTART). The start date is only
+   * included if it matches the rule. If the rule has no BY parts, the start date determines the day: e.g. a monthly
+   * rule starting on the 15th repeats on the 15th of each month.
+   *
+   * If the rule has no count or until date, this keeps going until year 9999, so be sure to stop iterating when you
+   * have as many dates as you need. Recurrence rules only support dates in years 1-9999, even if
+   * CalendarDate.enableExtendedRange() has been called, so the start date must be in that range.
+   */
+  public *occurrences(start: CalendarDate): Generator<CalendarDate, void> {
+    if (start.value < MIN_VALUE || start.value > MAX_VALUE) {
+      throw new RangeError(
+        `Date (${start}) out of range for a recurrence rule.`,
+      );
+    }
+    const { freq, count, until } = this.#options;
+    const interval = this.#options.interval ?? 1;
+    // If there are no BY rules that determine the day, get the day from the start date:
+    let byMonth = this.#options.byMonth;
+    let byMonthDay = this.#options.byMonthDay;
+    let byDay = this.#options.byDay;
+    if (!byMonthDay && !byDay) {
+      if (freq === "YEARLY") {
+        byMonth ??= [start.month];
+        byMonthDay = [start.day];
+      } else if (freq === "MONTHLY") {
+        byMonthDay = [start.day];
+      } else if (freq === "WEEKLY") {
+        byDay = [{ dayOfWeek: start.dayOfWeek }];
+      }
+    }
+    const rule = { byMonth, byMonthDay, byDay };
+
+    const lastValue = Math.min(until?.value ?? MAX_VALUE, MAX_VALUE);
+    const weekStart = this.#options.weekStart ?? 0;
+    const firstWeek = start.value - ((start.dayOfWeek - weekStart + 7) % 7);
+    const firstMonth = start.year * 12 + start.month - 1;
+    let yielded = 0;
+    let previous = -1;
+    for (let period = 0;; period += interval) {
+      let values: number[];
+      if (freq === "DAILY") {
+        const value = start.value + period;
+        if (value > lastValue) return;
+        values = this.#matches(value, rule) ? [value] : [];
+      } else if (freq === "WEEKLY") {
+        const weekValue = firstWeek + period * 7;
+        if (weekValue > lastValue) return;
+        values = [];
+        // (The first and last weeks of the supported range may be partial weeks.)
+        for (
+          let value = Math.max(weekValue, MIN_VALUE);
+          value <= Math.min(weekValue + 6, MAX_VALUE);
+          value++
+        ) {
+          if (this.#matches(value, rule)) values.push(value);
+        }
+      } else if (freq === "MONTHLY") {
+        const year = Math.floor((firstMonth + period) / 12);
+        const month = (firstMonth + period) % 12 + 1;
+        if (year > 9999) return;
+        values = !byMonth || byMonth.includes(month)
+          ? this.#daysInMonth(year, month, rule)
+          : [];
+      } else {
+        const year = start.year + period;
+        if (year > 9999) return;
+        if (byDay && !byMonth && !byMonthDay) {
+          values = this.#weekdaysInYear(year, byDay);
+        } else {
+          values = (byMonth ?? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]).flatMap(
+            (month) => this.#daysInMonth(year, month, rule),
+          );
+        }
+      }
+      for (const value of this.#applySetPos(values)) {
+        if (value > lastValue) return;
+        if (value < start.value || value <= previous) continue;
+        yield new CalendarDate(value);
+        previous = value;
+        if (++yielded === count) return;
+      }
+    }
+  }
+
+  /** Get the RFC 5545 RRULE string for this rule (without the "RRULE:" prefix), e.g. "FREQ=WEEKLY;BYDAY=MO,FR" */
+  public toString(): string {
+    const {
+      freq,
+      interval,
+      count,
+      until,
+      byMonth,
+      byMonthDay,
+      byDay,
+      bySetPos,
+      weekStart,
+      skip,
+    } = this.#options;
+    const parts = [`FREQ=${freq}`];
+    if (interval !== undefined && interval !== 1) {
+      parts.push(`INTERVAL=${interval}`);
+    }
+    if (count !== undefined) parts.push(`COUNT=${count}`);
+    if (until !== undefined) parts.push(`UNTIL=${toBasicFormat(until)}`);
+    if (byMonth) parts.push(`BYMONTH=${byMonth.join(",")}`);
+    if (byMonthDay) parts.push(`BYMONTHDAY=${byMonthDay.join(",")}`);
+    if (byDay) {
+      parts.push(
+        `BYDAY=${
+          byDay.map((day) => `${day.n ?? ""}${DAY_CODES[day.dayOfWeek]}`).join(
+            ",",
+          )
+        }`,
+      );
+    }
+    if (bySetPos) parts.push(`BYSETPOS=${bySetPos.join(",")}`);
+    if (weekStart !== undefined && weekStart !== 0) {
+      parts.push(`WKST=${DAY_CODES[weekStart]}`);
+    }
+    if (skip !== undefined && skip !== "omit") {
+      parts.push(`RSCALE=GREGORIAN;SKIP=${skip.toUpperCase()}`);
+    }
+    return parts.join(";");
+  }
+
+  /** JSON serialization - as an RRULE string */
+  public toJSON(): string {
+    return this.toString();
+  }
+
+  /** Does the given date match the BY rules? Used for daily and weekly rules, where each day is checked. */
+  #matches(
+    value: number,
+    rule: {
+      byMonth?: readonly number[];
+      byMonthDay?: readonly number[];
+      byDay?: readonly RecurrenceWeekday[];
+    },
+  ): boolean {
+    const date = new CalendarDate(value);
+    if (rule.byMonth && !rule.byMonth.includes(date.month)) {
+      return false;
+    }
+    if (rule.byMonthDay) {
+      const daysInMonth = CalendarDate.daysInMonth(date.year, date.month);
+      if (
+        !rule.byMonthDay.some((day) =>
+          day === date.day || daysInMonth + day + 1 === date.day
+        )
+      ) {
+        return false;
+      }
+    }
+    return !rule.byDay ||
+      rule.byDay.some((day) => day.dayOfWeek === date.dayOfWeek);
+  }
+
+  /** Get the values of the dates in the given month that match the BYMONTHDAY and BYDAY rules */
+  #daysInMonth(
+    year: number,
+    month: number,
+    rule: {
+      byMonthDay?: readonly number[];
+      byDay?: readonly RecurrenceWeekday[];
+    },
+  ): number[] {
+    const daysInMonth = CalendarDate.daysInMonth(year, month);
+    const firstValue = CalendarDate.create(year, month, 1).value;
+    const values: number[] = [];
+    if (rule.byMonthDay) {
+      const skip = this.#options.skip ?? "omit";
+      for (const monthDay of rule.byMonthDay) {
+        let day = monthDay > 0 ? monthDay : daysInMonth + monthDay + 1;
+        if (day < 1 || day > daysInMonth) {
+          if (skip === "omit") continue;
+          // Like addMonths(), "backward" gives the last day of the month, so "the 31st" of April is April 30.
+          day = day > daysInMonth
+            ? (skip === "backward" ? daysInMonth : daysInMonth + 1)
+            : (skip === "backward" ? 0 : 1);
+        }
+        const value = firstValue + day - 1;
+        // When combined with BYMONTHDAY, BYDAY only limits the days of the week (e.g. "Friday the 13th")
+        if (
+          !rule.byDay || rule.byDay.some((d) => d.dayOfWeek === (value + 5) % 7)
+        ) {
+          values.push(value);
+        }
+      }
+    } else if (rule.byDay) {
+      for (const { dayOfWeek, n } of rule.byDay) {
+        const first = firstValue + (dayOfWeek - (firstValue + 5) % 7 + 7) % 7;
+        const occurrences =
+          Math.floor((firstValue + daysInMonth - 1 - first) / 7) + 1;
+        if (n === undefined) {
+          for (let i = 0; i < occurrences; i++) values.push(first + i * 7);
+        } else {
+          const index = n > 0 ? n - 1 : occurrences + n;
+          if (index >= 0 && index < occurrences) values.push(first + index * 7);
+        }
+      }
+    }
+    return values;
+  }
+
+  /** Get the values of the dates in the given year that match the BYDAY rule, for yearly rules without BYMONTH */
+  #weekdaysInYear(year: number, byDay: readonly RecurrenceWeekday[]): number[] {
+    const firstValue = CalendarDate.create(year, 1, 1).value;
+    const lastValue = CalendarDate.create(year, 12, 31).value;
+    const values: number[] = [];
+    for (const { dayOfWeek, n } of byDay) {
+      const first = firstValue + (dayOfWeek - (firstValue + 5) % 7 + 7) % 7;
+      const occurrences = Math.floor((lastValue - first) / 7) + 1;
+      if (n === undefined) {
+        for (let i = 0; i < occurrences; i++) values.push(first + i * 7);
+      } else {
+        const index = n > 0 ? n - 1 : occurrences + n;
+        if (index >= 0 && index < occurrences) values.push(first + index * 7);
+      }
+    }
+    return values;
+  }
+
+  /** Sort the dates in a period, remove duplicates, and then apply the BYSETPOS rule if there is one */
+  #applySetPos(values: number[]): number[] {
+    const sorted = [...new Set(values)].sort((a, b) => a - b);
+    const bySetPos = this.#options.bySetPos;
+    if (!bySetPos) {
+      return sorted;
+    }
+    const selected = bySetPos.map((pos) =>
+      sorted[pos > 0 ? pos - 1 : sorted.length + pos]
+    )
+      .filter((value) => value !== undefined);
+    return [...new Set(selected)].sort((a, b) => a - b);
+  }
+
+  // Pretty print in Deno
+  [Symbol.for("Deno.customInspect")](): string {
+    return `RecurrenceRule {${this.toString()}}`;
+  }
+}
+
+/** Options for RecurrenceSet */
+interface RecurrenceSetOptions {
+  /** The recurrence rules (RRULE) */
+  rules?: readonly RecurrenceRule[];
+  /** Extra dates to include (RDATE) */
+  rdates?: readonly CalendarDate[];
+  /** Dates to exclude (EXDATE) */
+  exdates?: readonly CalendarDate[];
+}
+
+/**
+ * A set of recurring dates, as defined by RFC 5545: the start date (DTSTART), plus the dates generated by zero or more
+ * recurrence rules (RRULE), plus some extra dates (RDATE), minus some excluded dates (EXDATE).
+ *
+ * Iterating over a RecurrenceSet lazily yields the dates in order, without duplicates.
+ */
+class RecurrenceSet {
+  readonly #start: CalendarDate;
+  readonly #rules: readonly RecurrenceRule[];
+  readonly #rdates: readonly CalendarDate[];
+  readonly #exdates: readonly CalendarDate[];
+
+  /**
+   * Parse the date-only lines of an iCalendar event: DTSTART, RRULE, RDATE and EXDATE, e.g.
+   * ```
+   * DTSTART;VALUE=DATE:20230101
+   * RRULE:FREQ=MONTHLY;BYMONTHDAY=1
+   * EXDATE;VALUE=DATE:20230701
+   * ```
+   * Other lines (and other properties) are ignored.
+   */
+  public static fromString(str: string): RecurrenceSet {
+    let start: CalendarDate | undefined;
+    const rules: RecurrenceRule[] = [];
+    const rdates: CalendarDate[] = [];
+    const exdates: CalendarDate[] = [];
+    for (const line of str.split(/\r?\n/)) {
+      const colon = line.indexOf(":");
+      const name = line.slice(0, colon).split(";")[0].toUpperCase();
+      const value = line.slice(colon + 1);
+      const parseDates = () =>
+        value.split(",").map((date) => {
+          if (!/^\d{8}$/.test(date)) {
+            throw new Error(
+              `Invalid ${name} value: "${value}" (only dates are supported).`,
+            );
+          }
+          return CalendarDate.fromString(date);
+        });
+      if (name === "DTSTART") {
+        [start] = parseDates();
+      } else if (name === "RRULE") {
+        rules.push(RecurrenceRule.fromString(value));
+      } else if (name === "RDATE") {
+        rdates.push(...parseDates());
+      } else if (name === "EXDATE") {
+        exdates.push(...parseDates());
+      }
+    }
+    if (start === undefined) {
+      throw new Error(`Missing DTSTART.`);
+    }
+    return new RecurrenceSet(start, { rules, rdates, exdates });
+  }
+
+  constructor(start: CalendarDate, options: RecurrenceSetOptions = {}) {
+    this.#start = start;
+    this.#rules = Object.freeze([...options.rules ?? []]);
+    this.#rdates = Object.freeze([...options.rdates ?? []]);
+    this.#exdates = Object.freeze([...options.exdates ?? []]);
+  }
+
+  /** The first date of the recurrence (DTSTART) */
+  public get start(): CalendarDate {
+    return this.#start;
+  }
+
+  public get rules(): readonly RecurrenceRule[] {
+    return this.#rules;
+  }
+
+  public get rdates(): readonly CalendarDate[] {
+    return this.#rdates;
+  }
+
+  public get exdates(): readonly CalendarDate[] {
+    return this.#exdates;
+  }
+
+  /** Lazily iterate over all the dates in this set, in order */
+  public *[Symbol.iterator](): Generator<CalendarDate, void> {
+    const excluded = new Set(this.#exdates.map((date) => date.value));
+    const sources: Iterator<CalendarDate, void>[] = [
+      [this.#start, ...this.#rdates].sort((a, b) => a.value - b.value)
+        [Symbol.iterator](),
+      ...this.#rules.map((rule) => rule.occurrences(this.#start)),
+    ];
+    // Merge the sorted sequences from each source:
+    const next = sources.map((source) => source.next());
+    let previous = -1;
+    while (true) {
+      let best = -1;
+      next.forEach((result, i) => {
+        if (
+          !result.done &&
+          (best === -1 ||
+            result.value.value < (next[best].value as CalendarDate).value)
+        ) {
+          best = i;
+        }
+      });
+      if (best === -1) {
+        return;
+      }
+      const date = next[best].value as CalendarDate;
+      next[best] = sources[best].next();
+      if (date.value !== previous && !excluded.has(date.value)) {
+        yield date;
+      }
+      previous = date.value;
+    }
+  }
+
+  /** Get the iCalendar lines for this recurrence set (DTSTART, RRULE, RDATE and EXDATE), separated by newlines */
+  public toString(): string {
+    const lines = [`DTSTART;VALUE=DATE:${toBasicFormat(this.#start)}`];
+    for (const rule of this.#rules) {
+      lines.push(`RRULE:${rule.toString()}`);
+    }
+    if (this.#rdates.length > 0) {
+      lines.push(
+        `RDATE;VALUE=DATE:${this.#rdates.map(toBasicFormat).join(",")}`,
+      );
+    }
+    if (this.#exdates.length > 0) {
+      lines.push(
+        `EXDATE;VALUE=DATE:${this.#exdates.map(toBasicFormat).join(",")}`,
+      );
+    }
+    return lines.join("\n");
+  }
+}
+
+export {
+  type RecurrenceFrequency,
+  RecurrenceRule,
+  type RecurrenceRuleOptions,
+  RecurrenceSet,
+  type RecurrenceSetOptions,
+  type RecurrenceSkip,
+  type RecurrenceWeekday,
+};
@@ -0,0 +1,89 @@
+import { CalendarDate, CalendarDateParseError, D } from "./CalendarDate.ts";
+import { fromJulian } from "./CalendarDateJulian.ts";
+import {
+  BRITISH_REFORM,
+  GREGORIAN_REFORM,
+  ReformCalendar,
+} from "./ReformCalendar.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.5";
+
+Deno.test("ReformCalendar", async (t) => {
+  await t.step("the original Gregorian reform", () => {
+    assertEquals(GREGORIAN_REFORM.format(D`1582-10-14`), "1582-10-04");
+    assertEquals(GREGORIAN_REFORM.format(D`1582-10-15`), "1582-10-15");
+    assertEquals(GREGORIAN_REFORM.toTriplet(D`1582-10-14`), {
+      year: 1582,
+      month: 10,
+      day: 4,
+      calendar: "julian",
+    });
+    assertEquals(GREGORIAN_REFORM.parse("1582-10-04").toString(), "1582-10-14");
+    assertEquals(GREGORIAN_REFORM.parse("1582-10-15").toString(), "1582-10-15");
+    assertEquals(GREGORIAN_REFORM.isJulian(D`1582-10-14`), true);
+    assertEquals(GREGORIAN_REFORM.isJulian(D`1582-10-15`), false);
+    assertThrows(
+      () => GREGORIAN_REFORM.parse("1582-10-10"),
+      Error,
+      "Date (1582-10-10) was skipped by the switch to the Gregorian calendar.",
+    );
+  });
+
+  await t.step("Britain", () => {
+    // Wednesday, Sept. 2 was followed by Thursday, Sept. 14:
+    const lastJulianDay = BRITISH_REFORM.parse("1752-09-02");
+    assertEquals(lastJulianDay.dayOfWeek, 2);
+    assertEquals(BRITISH_REFORM.format(lastJulianDay.addDays(1)), "1752-09-14");
+    assertEquals(BRITISH_REFORM.format(D`1700-03-11`), "1700-02-29"); // A leap day in the Julian calendar only
+    assertEquals(BRITISH_REFORM.parse("1700-02-29").toString(), "1700-03-11");
+    assertEquals(BRITISH_REFORM.cutover.toString(), "1752-09-14");
+    // Round trip every day in the 18th century:
+    for (let date = D`1700-01-01`; date.year < 1800; date = date.addDays(1)) {
+      assertEquals(
+        BRITISH_REFORM.parse(BRITISH_REFORM.format(date)).toString(),
+        date.toString(),
+      );
+    }
+  });
+
+  await t.step("expanded years in the extended range", () => {
+    CalendarDate.enableExtendedRange();
+    try {
+      const idesOfMarch = fromJulian(-43, 3, 15); // 44 BCE
+      assertEquals(GREGORIAN_REFORM.format(idesOfMarch), "-000043-03-15");
+      assertEquals(
+        GREGORIAN_REFORM.parse("-000043-03-15").toString(),
+        idesOfMarch.toString(),
+      );
+      assertEquals(GREGORIAN_REFORM.format(D`+010000-01-01`), "+010000-01-01");
+      assertEquals(
+        GREGORIAN_REFORM.parse("+010000-01-01").toString(),
+        "+010000-01-01",
+      );
+      assertThrows(
+        () => GREGORIAN_REFORM.parse("-000000-01-01"),
+        CalendarDateParseError,
+        'Year zero must be written as "+000000".',
+      );
+    } finally {
+      CalendarDate.enableExtendedRange(false);
+    }
+  });
+
+  await t.step("errors", () => {
+    assertThrows(
+      () => BRITISH_REFORM.parse("1700-02-30"),
+      Error,
+      "Day out of range.",
+    );
+    assertThrows(() => BRITISH_REFORM.parse("1752-9-2"), Error, "YYYY-MM-DD");
+    assertThrows(
+      () => new ReformCalendar(D`0150-01-01`),
+      Error,
+      "The Gregorian calendar must be ahead of the Julian calendar at the cutover (0150-01-01).",
+    );
+    assertEquals(
+      new ReformCalendar(D`1918-02-14`).format(D`1918-02-13`), // Russia
+      "1918-01-31",
+    );
+  });
+});
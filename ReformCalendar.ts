@@ -0,0 +1,145 @@
+import {
+  CalendarDate,
+  CalendarDateParseError,
+  type DateTriplet,
+  formatIsoYear,
+  parseIsoYear,
+} from "./CalendarDate.ts";
+import { fromJulian, toJulianTriplet } from "./CalendarDateJulian.ts";
+
+/** A date in a ReformCalendar: its year, month and day, and which calendar they're in */
+interface ReformCalendarTriplet extends DateTriplet {
+  calendar: "julian" | "gregorian";
+}
+
+/** Turn a triplet into a number that can be compared with other triplets */
+const sortKey = ({ year, month, day }: DateTriplet): number =>
+  year * 512 + month * 32 + day;
+
+/** Format a triplet like an ISO 8601 date string, e.g. "1752-09-02" */
+const formatTriplet = ({ year, month, day }: DateTriplet): string =>
+  `${formatIsoYear(year)}-${month.toString().padStart(2, "0")}-${
+    day.toString().padStart(2, "0")
+  }`;
+
+/**
+ * The calendar that was actually in use in some place: the Julian calendar before the date on which the Gregorian
+ * calendar was adopted there, and the Gregorian calendar from then on. Use this to display and parse historical dates
+ * as they were written at the time. Dates are still CalendarDates, so they can be compared with and converted to other
+ * dates as usual.
+ *
+ * For example, in Britain and its colonies, Wednesday, Sept. 2, 1752 (Julian) was followed by Thursday, Sept. 14, 1752
+ * (Gregorian), so "1752-09-05" isn't a valid date in BRITISH_REFORM.
+ */
+class ReformCalendar {
+  /** The first day of the Gregorian calendar */
+  readonly #cutover: CalendarDate;
+  /** The last day of the Julian calendar, as a Julian date */
+  readonly #lastJulianDay: DateTriplet;
+
+  /**
+   * @param cutover The first day on which the Gregorian calendar was used (e.g. 1582-10-15). Days before it use the
+   *                Julian calendar.
+   */
+  constructor(cutover: CalendarDate) {
+    this.#cutover = cutover;
+    this.#lastJulianDay = toJulianTriplet(cutover.addDays(-1));
+    if (sortKey(this.#lastJulianDay) >= sortKey(cutover)) {
+      // Before 200 CE, the Julian calendar is ahead of the Gregorian calendar, so some dates would be ambiguous.
+      throw new Error(
+        `The Gregorian calendar must be ahead of the Julian calendar at the cutover (${cutover.toString()}).`,
+      );
+    }
+  }
+
+  /** The first day on which the Gregorian calendar was used */
+  public get cutover(): CalendarDate {
+    return this.#cutover;
+  }
+
+  /** Check if a date was in the Julian calendar (i.e. before the cutover) */
+  public isJulian(date: CalendarDate): boolean {
+    return date.isBefore(this.#cutover);
+  }
+
+  /** Get the year, month and day of a date in the calendar that was in use at the time */
+  public toTriplet(date: CalendarDate): ReformCalendarTriplet {
+    return this.isJulian(date)
+      ? { ...toJulianTriplet(date), calendar: "julian" }
+      : {
+        year: date.year,
+        month: date.month,
+        day: date.day,
+        calendar: "gregorian",
+      };
+  }
+
+  /**
+   * Get a date from its year, month and day in the calendar that was in use at the time. Throws an error for days that
+   * were skipped when the Gregorian calendar was adopted.
+   * @param year Year (e.g. 1582)
+   * @param month Month (1 for January, 12 for December)
+   * @param day Day (1-31)
+   */
+  public create(year: number, month: number, day: number): CalendarDate {
+    const key = sortKey({ year, month, day });
+    if (key <= sortKey(this.#lastJulianDay)) {
+      return fromJulian(year, month, day);
+    } else if (key < sortKey(this.#cutover)) {
+      throw new Error(
+        `Date (${
+          formatTriplet({ year, month, day })
+        }) was skipped by the switch to the Gregorian calendar.`,
+      );
+    }
+    return CalendarDate.create(year, month, day);
+  }
+
+  /**
+   * Parse a "YYYY-MM-DD" date string in the calendar that was in use at the time
+   * @param str A "YYYY-MM-DD" string, or one with an expanded year like "-000043-03-15" (see CalendarDate.toString())
+   */
+  public parse(str: string): CalendarDate {
+    const [year, pos] = parseIsoYear(str);
+    const match = /^-(\d{2})-(\d{2})$/.exec(str.substring(pos));
+    if (match === null) {
+      throw new CalendarDateParseError(
+        "Expected a date (YYYY-MM-DD).",
+        str,
+        undefined,
+        0,
+      );
+    }
+    return this.create(year, Number(match[1]), Number(match[2]));
+  }
+
+  /**
+   * Format a date as a "YYYY-MM-DD" string in the calendar that was in use at the time, e.g. "1752-09-02" for the day
+   * before 1752-09-14 in BRITISH_REFORM.
+   */
+  public format(date: CalendarDate): string {
+    return formatTriplet(this.toTriplet(date));
+  }
+
+  // Pretty print in Deno
+  [Symbol.for("Deno.customInspect")](): string {
+    return `ReformCalendar {Gregorian from ${this.#cutover.toString()}}`;
+  }
+}
+
+/** The original Gregorian reform, adopted by the Papal States, Spain, Portugal and others on Oct. 15, 1582 */
+const GREGORIAN_REFORM: ReformCalendar = new ReformCalendar(
+  CalendarDate.create(1582, 10, 15),
+);
+
+/** Great Britain and its colonies, which adopted the Gregorian calendar on Sept. 14, 1752 */
+const BRITISH_REFORM: ReformCalendar = new ReformCalendar(
+  CalendarDate.create(1752, 9, 14),
+);
+
+export {
+  BRITISH_REFORM,
+  GREGORIAN_REFORM,
+  ReformCalendar,
+  type ReformCalendarTriplet,
+};